@@ -1,36 +1,60 @@
 #!/usr/bin/env node
 
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { createMCPServer } from "./src/server.js";
-import { HttpTransport } from "./src/http-transport.js";
+import { CliError, HELP_TEXT, parseArgs, readPackageVersion } from "./src/cli.js";
+import { ConfigFileError, applyConfigFile } from "./src/config-file.js";
 
-async function runStdioServer() {
-  const server = createMCPServer();
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Yandex Maps MCP Server running on stdio");
+// Settings are resolved as command line > environment > config file > defaults
+// before anything imports config.ts, which reads them once at import time.
+async function resolveConfig(args: string[]): Promise<boolean> {
+  const options = parseArgs(args);
+  if (options.help) {
+    console.log(HELP_TEXT);
+    return false;
+  }
+  if (options.version) {
+    console.log(await readPackageVersion());
+    return false;
+  }
+
+  Object.assign(process.env, options.env);
+  const configFile = options.config ?? process.env.YANDEX_MAPS_CONFIG_FILE;
+  if (configFile) {
+    await applyConfigFile(configFile);
+  }
+  return true;
 }
 
 async function main() {
-  const args = process.argv.slice(2);
-  const transportType = args.includes('--transport') ? args[args.indexOf('--transport') + 1] : 'stdio';
-
   try {
-    switch (transportType) {
-      case 'http':
-      case 'sse':
-        const httpTransport = new HttpTransport();
-        await httpTransport.runHttpServer();
-        break;
-      case 'stdio':
-      default:
-        await runStdioServer();
-        break;
+    if (!await resolveConfig(process.argv.slice(2))) {
+      return;
+    }
+  } catch (error) {
+    if (error instanceof CliError || error instanceof ConfigFileError) {
+      console.error(error.message);
+      if (error instanceof CliError) {
+        console.error("Run with --help to see the available options.");
+        process.exit(2);
+      }
+      process.exit(1);
     }
+    throw error;
+  }
+
+  const { getConfigErrors, startServer } = await import("./src/app.js");
+  const configErrors = getConfigErrors();
+  if (configErrors.length > 0) {
+    console.error(`Invalid configuration:\n${configErrors.map(problem => `  - ${problem}`).join("\n")}`);
+    process.exit(1);
+  }
+
+  const { logger } = await import("./src/logger.js");
+  try {
+    await startServer();
   } catch (error) {
-    console.error('Fatal error running server:', error);
+    logger.error("Fatal error running server", { error });
     process.exit(1);
   }
 }
 
-main();
\ No newline at end of file
+main();
@@ -0,0 +1,50 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createMCPServer } from "./server.js";
+import { HttpTransport } from "./http-transport.js";
+import { toolRegistry } from "./tool-registry.js";
+import { resourceStore } from "./resources.js";
+import { logger } from "./logger.js";
+import { CONFIG_ERRORS, DISABLED_TOOLS, ENABLED_TOOLS, TRANSPORT } from "./config.js";
+
+async function runStdioServer() {
+  const server = createMCPServer(toolRegistry, resourceStore, { sessionId: "stdio" });
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  logger.info("Yandex Maps MCP Server running on stdio");
+}
+
+/** Every problem with the resolved configuration; the server must not start unless empty. */
+export function getConfigErrors(): string[] {
+  const unknownTools = [...(ENABLED_TOOLS ?? []), ...DISABLED_TOOLS].filter(name => !toolRegistry.get(name));
+  if (unknownTools.length === 0) {
+    return CONFIG_ERRORS;
+  }
+  return [...CONFIG_ERRORS, `Unknown tools in the tool selection: ${unknownTools.join(', ')}`];
+}
+
+/**
+ * Starts the configured transport. Loaded only after the configuration has been
+ * resolved and validated, since modules read their settings when imported.
+ */
+export async function startServer(): Promise<void> {
+  toolRegistry.configure({
+    enable: ENABLED_TOOLS,
+    disable: DISABLED_TOOLS,
+  });
+  const tools = toolRegistry.listTools();
+  if (tools.length === 0) {
+    logger.warn("No tools are available, check the enabled and disabled tools and the API keys");
+  } else {
+    logger.info("Available tools", { tools: tools.map(tool => tool.name) });
+  }
+
+  switch (TRANSPORT) {
+    case 'http':
+    case 'sse':
+      await new HttpTransport().runHttpServer();
+      break;
+    case 'stdio':
+      await runStdioServer();
+      break;
+  }
+}
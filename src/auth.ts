@@ -0,0 +1,340 @@
+import { createHash, createPublicKey, constants, JsonWebKey, KeyObject, timingSafeEqual, verify } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { IncomingMessage } from "node:http";
+import {
+  HTTP_AUTH_TOKENS,
+  HTTP_JWKS_FILE,
+  HTTP_JWT_ISSUER,
+  HTTP_JWT_AUDIENCE,
+  HTTP_JWT_REQUIRED_SCOPE,
+  HTTP_ALLOWED_ORIGINS,
+  JWKS_RELOAD_INTERVAL_MS
+} from "./config.js";
+import { logger } from "./logger.js";
+
+export interface AuthContext {
+  /**
+   * Stable identifier of the caller, used to bind sessions, account usage and grant
+   * admin access. Prefixed with the authentication method, `token:` or `jwt:`, so a
+   * JWT subject can never pass for a static token client of the same name.
+   */
+  clientId: string;
+  method: string;
+}
+
+/**
+ * Validates bearer tokens. Returns undefined when the token is not one this
+ * authenticator recognizes, so the next one can try; throws AuthError when the
+ * token is recognized but not acceptable.
+ */
+export interface Authenticator {
+  authenticate(token: string): Promise<AuthContext | undefined>;
+}
+
+export class AuthError extends Error {
+  constructor(readonly status: 401 | 403, message: string, readonly code = status === 401 ? "invalid_token" : "insufficient_scope") {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Static bearer tokens, configured as `token` or `client:token` entries, identified
+ * as `token:<client>`. Tokens without a client name are identified by a hash prefix
+ * so they never appear in logs.
+ */
+export class StaticTokenAuthenticator implements Authenticator {
+  private tokens: Array<{ clientId: string, digest: Buffer }>;
+
+  constructor(entries: string[]) {
+    this.tokens = entries.map(entry => {
+      const separator = entry.indexOf(':');
+      const token = separator === -1 ? entry : entry.slice(separator + 1);
+      const name = separator === -1 ? `sha256-${digest(token).toString('hex').slice(0, 8)}` : entry.slice(0, separator);
+      return { clientId: `token:${name}`, digest: digest(token) };
+    });
+  }
+
+  async authenticate(token: string): Promise<AuthContext | undefined> {
+    const tokenDigest = digest(token);
+    const match = this.tokens.find(candidate => timingSafeEqual(candidate.digest, tokenDigest));
+    return match ? { clientId: match.clientId, method: "token" } : undefined;
+  }
+}
+
+export interface JwtOptions {
+  jwksFile: string;
+  issuer?: string;
+  audience?: string;
+  requiredScope?: string;
+  /** Allowed clock difference in seconds for exp and nbf. */
+  clockToleranceSeconds?: number;
+  /** Minimum time between reads of the JWKS file. */
+  reloadIntervalMs?: number;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  azp?: string;
+  client_id?: string;
+  scope?: string;
+  /** A list, or a space-delimited string as some identity providers send it. */
+  scp?: string | string[];
+}
+
+interface JwtAlgorithm {
+  hash: string;
+  /** Key type the algorithm needs, as reported by KeyObject.asymmetricKeyType. */
+  keyType: "rsa" | "ec";
+  /** Curve of EC keys, as reported in KeyObject.asymmetricKeyDetails. */
+  curve?: string;
+  padding?: number;
+  dsaEncoding?: "ieee-p1363";
+}
+
+const JWT_ALGORITHMS: Record<string, JwtAlgorithm> = {
+  RS256: { hash: "sha256", keyType: "rsa" },
+  RS384: { hash: "sha384", keyType: "rsa" },
+  RS512: { hash: "sha512", keyType: "rsa" },
+  PS256: { hash: "sha256", keyType: "rsa", padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: "sha384", keyType: "rsa", padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: "sha512", keyType: "rsa", padding: constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: "sha256", keyType: "ec", curve: "prime256v1", dsaEncoding: "ieee-p1363" },
+  ES384: { hash: "sha384", keyType: "ec", curve: "secp384r1", dsaEncoding: "ieee-p1363" },
+  ES512: { hash: "sha512", keyType: "ec", curve: "secp521r1", dsaEncoding: "ieee-p1363" },
+};
+
+interface JwtKey {
+  key: KeyObject;
+  /** Algorithm the JWK is restricted to with its `alg` member. */
+  alg?: string;
+}
+
+/** Whether a token signed with `alg` may be verified with the key at all. */
+function keyMatchesAlgorithm(jwtKey: JwtKey, alg: string, algorithm: JwtAlgorithm): boolean {
+  if (jwtKey.alg !== undefined && jwtKey.alg !== alg) {
+    return false;
+  }
+  if (jwtKey.key.asymmetricKeyType !== algorithm.keyType) {
+    return false;
+  }
+  return !algorithm.curve || jwtKey.key.asymmetricKeyDetails?.namedCurve === algorithm.curve;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+/**
+ * OAuth access tokens in JWT form, verified against public keys from a JWKS file.
+ * The file is re-read when a token names a key id it does not contain, so keys can
+ * be rotated without a restart, but at most once per reload interval so unknown key
+ * ids cannot be used to keep the server reading the file.
+ */
+export class JwtAuthenticator implements Authenticator {
+  private keys?: Map<string | undefined, JwtKey>;
+  private loadedAt?: number;
+
+  constructor(private readonly options: JwtOptions) {}
+
+  async authenticate(token: string): Promise<AuthContext | undefined> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      return undefined;
+    }
+
+    let header: JwtHeader;
+    let claims: JwtClaims;
+    try {
+      header = decodeSegment<JwtHeader>(segments[0]);
+      claims = decodeSegment<JwtClaims>(segments[1]);
+    } catch {
+      throw new AuthError(401, "Malformed JWT");
+    }
+
+    const algorithm = header.alg ? JWT_ALGORITHMS[header.alg] : undefined;
+    if (!header.alg || !algorithm) {
+      throw new AuthError(401, `Unsupported JWT algorithm ${header.alg}`);
+    }
+
+    const jwtKey = await this.getKey(header.kid);
+    if (!keyMatchesAlgorithm(jwtKey, header.alg, algorithm)) {
+      throw new AuthError(401, `JWT algorithm ${header.alg} does not match key ${header.kid ?? '(no kid)'}`);
+    }
+    const key = jwtKey.key;
+    const signed = Buffer.from(`${segments[0]}.${segments[1]}`);
+    const signature = Buffer.from(segments[2], 'base64url');
+    const valid = verify(algorithm.hash, signed, {
+      key,
+      padding: algorithm.padding,
+      saltLength: algorithm.padding ? constants.RSA_PSS_SALTLEN_DIGEST : undefined,
+      dsaEncoding: algorithm.dsaEncoding
+    }, signature);
+    if (!valid) {
+      throw new AuthError(401, "Invalid JWT signature");
+    }
+
+    this.checkClaims(claims);
+    return { clientId: `jwt:${claims.client_id ?? claims.azp ?? claims.sub ?? "anonymous"}`, method: "jwt" };
+  }
+
+  private checkClaims(claims: JwtClaims): void {
+    const now = Date.now() / 1000;
+    const tolerance = this.options.clockToleranceSeconds ?? 60;
+    if (typeof claims.exp !== "number") {
+      throw new AuthError(401, "JWT has no expiry");
+    }
+    if (now > claims.exp + tolerance) {
+      throw new AuthError(401, "JWT has expired");
+    }
+    if (claims.nbf !== undefined && now < claims.nbf - tolerance) {
+      throw new AuthError(401, "JWT is not valid yet");
+    }
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw new AuthError(401, "JWT issuer is not accepted");
+    }
+    if (this.options.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.options.audience)) {
+        throw new AuthError(401, "JWT audience is not accepted");
+      }
+    }
+    if (this.options.requiredScope) {
+      const scopes = (typeof claims.scp === "string" ? claims.scp.split(' ') : claims.scp) ?? claims.scope?.split(' ') ?? [];
+      if (!scopes.includes(this.options.requiredScope)) {
+        throw new AuthError(403, `JWT lacks the ${this.options.requiredScope} scope`);
+      }
+    }
+  }
+
+  private async getKey(kid: string | undefined): Promise<JwtKey> {
+    if (!this.keys || (kid !== undefined && !this.keys.has(kid))) {
+      await this.reloadKeys();
+    }
+    if (!this.keys) {
+      throw new AuthError(401, "JWT signing keys are not available");
+    }
+    const key = this.keys.get(kid) ?? (kid === undefined && this.keys.size === 1 ? [...this.keys.values()][0] : undefined);
+    if (!key) {
+      throw new AuthError(401, `Unknown JWT key ${kid ?? '(no kid)'}`);
+    }
+    return key;
+  }
+
+  /** Keeps the previous keys when the file cannot be read or parsed. */
+  private async reloadKeys(): Promise<void> {
+    const now = Date.now();
+    if (this.loadedAt !== undefined && now - this.loadedAt < (this.options.reloadIntervalMs ?? JWKS_RELOAD_INTERVAL_MS)) {
+      return;
+    }
+    this.loadedAt = now;
+    try {
+      this.keys = await this.loadKeys();
+    } catch (error) {
+      logger.error("Failed to load JWKS file", { file: this.options.jwksFile, error });
+    }
+  }
+
+  private async loadKeys(): Promise<Map<string | undefined, JwtKey>> {
+    const jwks = JSON.parse(await readFile(this.options.jwksFile, 'utf8')) as { keys?: Array<JsonWebKey & { kid?: string, use?: string, alg?: string }> };
+    const keys = new Map<string | undefined, JwtKey>();
+    for (const jwk of jwks.keys ?? []) {
+      if (jwk.use && jwk.use !== 'sig') {
+        continue;
+      }
+      keys.set(jwk.kid, { key: createPublicKey({ key: jwk, format: 'jwk' }), alg: jwk.alg });
+    }
+    return keys;
+  }
+}
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * Authentication and origin checks for the HTTP transport. With no authenticators
+ * every caller is accepted; with no allowed origins only loopback origins are, which
+ * blocks DNS rebinding from web pages.
+ */
+export class HttpAuth {
+  constructor(
+    private readonly authenticators: Authenticator[] = [],
+    private readonly allowedOrigins: string[] = []
+  ) {}
+
+  get enabled(): boolean {
+    return this.authenticators.length > 0;
+  }
+
+  isOriginAllowed(origin: string): boolean {
+    if (this.allowedOrigins.includes('*') || this.allowedOrigins.includes(origin)) {
+      return true;
+    }
+    if (this.allowedOrigins.length > 0) {
+      return false;
+    }
+    try {
+      return LOOPBACK_HOSTS.includes(new URL(origin).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /** Throws AuthError(403) for a browser request from an origin that is not allowed. */
+  checkOrigin(req: IncomingMessage): void {
+    const origin = req.headers.origin;
+    if (origin && !this.isOriginAllowed(origin)) {
+      throw new AuthError(403, `Origin ${origin} is not allowed`, "forbidden_origin");
+    }
+  }
+
+  /**
+   * Resolves the caller of a request. Returns undefined when authentication is
+   * disabled and throws AuthError when it is enabled and the request is not accepted.
+   */
+  async authenticate(req: IncomingMessage): Promise<AuthContext | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const header = req.headers.authorization;
+    const match = header?.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw new AuthError(401, "Bearer token is required", "missing_token");
+    }
+
+    for (const authenticator of this.authenticators) {
+      const context = await authenticator.authenticate(match[1]);
+      if (context) {
+        return context;
+      }
+    }
+    throw new AuthError(401, "Bearer token is not valid");
+  }
+}
+
+export function createHttpAuthFromConfig(): HttpAuth {
+  const authenticators: Authenticator[] = [];
+  if (HTTP_AUTH_TOKENS.length > 0) {
+    authenticators.push(new StaticTokenAuthenticator(HTTP_AUTH_TOKENS));
+  }
+  if (HTTP_JWKS_FILE) {
+    authenticators.push(new JwtAuthenticator({
+      jwksFile: HTTP_JWKS_FILE,
+      issuer: HTTP_JWT_ISSUER,
+      audience: HTTP_JWT_AUDIENCE,
+      requiredScope: HTTP_JWT_REQUIRED_SCOPE
+    }));
+  }
+  return new HttpAuth(authenticators, HTTP_ALLOWED_ORIGINS);
+}
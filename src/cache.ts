@@ -0,0 +1,183 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { URL } from "node:url";
+import {
+  CACHE_TTL_MS,
+  CACHE_DIR,
+  CACHE_GEOCODE_MAX_ENTRIES,
+  CACHE_REVERSE_GEOCODE_MAX_ENTRIES,
+  CACHE_RENDER_MAX_ENTRIES,
+  CACHE_PLACES_MAX_ENTRIES
+} from "./config.js";
+import { GeoObjectCollection, PlacesResponse } from "./types.js";
+import { logger } from "./logger.js";
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  maxEntries: number;
+}
+
+/**
+ * In-memory LRU cache with a per-entry TTL. When a directory is given, entries are
+ * also written to disk so they survive restarts; disk reads happen only on memory misses.
+ */
+export class ResponseCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly maxEntries: number,
+    private readonly ttlMs: number,
+    private readonly directory?: string
+  ) {}
+
+  get enabled(): boolean {
+    return this.maxEntries > 0 && this.ttlMs > 0;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    let entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+    } else {
+      entry = await this.readFromDisk(key);
+    }
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.remember(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const entry = { value, expiresAt: Date.now() + this.ttlMs };
+    this.entries.delete(key);
+    this.remember(key, entry);
+    await this.writeToDisk(key, entry);
+  }
+
+  stats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      maxEntries: this.maxEntries
+    };
+  }
+
+  private remember(key: string, entry: CacheEntry<T>): void {
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return join(this.directory as string, this.name, `${hash}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry<T> | undefined> {
+    if (!this.directory) {
+      return undefined;
+    }
+
+    const path = this.filePath(key);
+    try {
+      const entry = JSON.parse(await readFile(path, 'utf8')) as CacheEntry<T> & { key: string };
+      if (entry.key !== key) {
+        return undefined;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        await unlink(path).catch(() => undefined);
+        return undefined;
+      }
+      return { value: entry.value, expiresAt: entry.expiresAt };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(key: string, entry: CacheEntry<T>): Promise<void> {
+    if (!this.directory) {
+      return;
+    }
+
+    try {
+      await mkdir(join(this.directory, this.name), { recursive: true });
+      await writeFile(this.filePath(key), JSON.stringify({ key, ...entry }));
+    } catch (error) {
+      logger.error("Failed to persist cache entry", { cache: this.name, error });
+    }
+  }
+}
+
+/** Free-text parameters, whose case does not change what Yandex returns. */
+const CASE_INSENSITIVE_PARAMETERS = new Set(['geocode', 'text']);
+/** Opaque identifiers that must be matched exactly. */
+const VERBATIM_PARAMETERS = new Set(['uri']);
+
+/**
+ * Builds a cache key from a Yandex request URL: the API key is dropped, parameters
+ * are sorted, free-text queries are lower-cased, and every decimal number outside
+ * identifiers is rounded to 6 digits so that requests differing only by coordinate
+ * noise share an entry.
+ */
+export function cacheKeyFromUrl(url: URL): string {
+  return [...url.searchParams.entries()]
+    .filter(([name]) => name !== 'apikey')
+    .map(([name, value]) => {
+      if (VERBATIM_PARAMETERS.has(name)) {
+        return `${name}=${value}`;
+      }
+      let normalized = value
+        .trim()
+        .replace(/-?\d+\.\d+/g, number => String(Number(Number(number).toFixed(6))));
+      if (CASE_INSENSITIVE_PARAMETERS.has(name)) {
+        normalized = normalized.toLowerCase();
+      }
+      return `${name}=${normalized}`;
+    })
+    .sort()
+    .join('&');
+}
+
+// Module-level caches are shared by every server instance in the process,
+// including all sessions created by the HTTP transport.
+export const geocodeCache = new ResponseCache<GeoObjectCollection>('geocode', CACHE_GEOCODE_MAX_ENTRIES, CACHE_TTL_MS, CACHE_DIR);
+export const reverseGeocodeCache = new ResponseCache<GeoObjectCollection>('reverse_geocode', CACHE_REVERSE_GEOCODE_MAX_ENTRIES, CACHE_TTL_MS, CACHE_DIR);
+export const renderCache = new ResponseCache<{ data: string, mimeType: string }>('render', CACHE_RENDER_MAX_ENTRIES, CACHE_TTL_MS, CACHE_DIR);
+
+export const placesCache = new ResponseCache<PlacesResponse>('places', CACHE_PLACES_MAX_ENTRIES, CACHE_TTL_MS, CACHE_DIR);
+
+export function getCacheStats(): Record<string, CacheStats> {
+  return {
+    geocode: geocodeCache.stats(),
+    reverse_geocode: reverseGeocodeCache.stats(),
+    render: renderCache.stats(),
+    places: placesCache.stats()
+  };
+}
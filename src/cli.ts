@@ -0,0 +1,90 @@
+import { readFile } from "node:fs/promises";
+
+// This module runs before config.ts is loaded, so it must not import it.
+
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export interface CliOptions {
+  help: boolean;
+  version: boolean;
+  config?: string;
+  /** Environment variables set by command line options, which override the environment. */
+  env: Record<string, string>;
+}
+
+/** Options that take a value, and the environment variable the value is stored in. */
+const VALUE_OPTIONS: Record<string, string | undefined> = {
+  "--config": undefined,
+  "--transport": "YANDEX_MAPS_TRANSPORT",
+  "--port": "PORT",
+  "--host": "HOST",
+  "--log-level": "YANDEX_MAPS_LOG_LEVEL",
+  "--lang": "YANDEX_MAPS_DEFAULT_LANG",
+  "--enable-tools": "YANDEX_MAPS_ENABLE_TOOLS",
+  "--disable-tools": "YANDEX_MAPS_DISABLE_TOOLS",
+};
+
+export const HELP_TEXT = `Usage: yandex-maps-mcp [options]
+
+MCP server for the Yandex Maps APIs.
+
+Options:
+  --transport <type>       stdio (default), http or sse
+  --port <number>          HTTP port (default 3000)
+  --host <address>         HTTP listen address (default 0.0.0.0)
+  --config <file>          JSON or YAML config file (.json is read as JSON, anything else as YAML)
+  --enable-tools <names>   Comma-separated tools to serve, all others are hidden
+  --disable-tools <names>  Comma-separated tools to hide
+  --log-level <level>      debug, info (default), warn or error
+  --lang <code>            Default language for tools and prompts called without lang
+  -h, --help               Show this help and exit
+  -v, --version            Show the version and exit
+
+Settings are resolved from command line options, then environment variables, then
+the config file, then defaults. The config file can also be set with
+YANDEX_MAPS_CONFIG_FILE. See the README for every environment variable and config key.`;
+
+export function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { help: false, version: false, env: {} };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === "-h" || arg === "--help") {
+      options.help = true;
+      continue;
+    }
+    if (arg === "-v" || arg === "--version") {
+      options.version = true;
+      continue;
+    }
+
+    const [name, inlineValue] = arg.split(/=(.*)/s, 2);
+    if (!(name in VALUE_OPTIONS)) {
+      throw new CliError(`Unknown option: ${arg}`);
+    }
+    const value = inlineValue ?? args[++index];
+    if (value === undefined || (inlineValue === undefined && value.startsWith("--"))) {
+      throw new CliError(`Option ${name} requires a value`);
+    }
+
+    const envName = VALUE_OPTIONS[name];
+    if (envName) {
+      options.env[envName] = value;
+    } else {
+      options.config = value;
+    }
+  }
+
+  return options;
+}
+
+export async function readPackageVersion(): Promise<string> {
+  // Compiled to dist/src/cli.js, next to which package.json sits two levels up
+  const packageJson = JSON.parse(await readFile(new URL("../../package.json", import.meta.url), "utf8"));
+  return packageJson.version;
+}
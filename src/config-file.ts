@@ -0,0 +1,186 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+// This module runs before config.ts is loaded, so it must not import it.
+
+type SettingType = "string" | "number" | "list";
+
+interface Setting {
+  env: string;
+  type: SettingType;
+}
+
+function setting(env: string, type: SettingType = "string"): Setting {
+  return { env, type };
+}
+
+/**
+ * Keys accepted in a config file, by their dotted path, and the environment variable
+ * each one stands in for. Environment variables stay the single source config.ts
+ * reads, so a file only fills in what the environment leaves unset.
+ */
+const SETTINGS: Record<string, Setting> = {
+  "transport": setting("YANDEX_MAPS_TRANSPORT"),
+  "host": setting("HOST"),
+  "port": setting("PORT", "number"),
+  "log_level": setting("YANDEX_MAPS_LOG_LEVEL"),
+  "lang": setting("YANDEX_MAPS_DEFAULT_LANG"),
+
+  "api_keys.geocoder": setting("YANDEX_MAPS_API_KEY"),
+  "api_keys.static": setting("YANDEX_MAPS_STATIC_API_KEY"),
+  "api_keys.router": setting("YANDEX_MAPS_ROUTER_API_KEY"),
+  "api_keys.places": setting("YANDEX_MAPS_PLACES_API_KEY"),
+  "api_keys.suggest": setting("YANDEX_MAPS_SUGGEST_API_KEY"),
+
+  "endpoints.geocoder": setting("YANDEX_MAPS_GEOCODER_BASE_URL"),
+  "endpoints.static": setting("YANDEX_MAPS_STATIC_BASE_URL"),
+  "endpoints.router": setting("YANDEX_MAPS_ROUTER_BASE_URL"),
+  "endpoints.places": setting("YANDEX_MAPS_PLACES_BASE_URL"),
+  "endpoints.suggest": setting("YANDEX_MAPS_SUGGEST_BASE_URL"),
+
+  "tools.enable": setting("YANDEX_MAPS_ENABLE_TOOLS", "list"),
+  "tools.disable": setting("YANDEX_MAPS_DISABLE_TOOLS", "list"),
+
+  "upstream.timeout_ms": setting("YANDEX_MAPS_TIMEOUT_MS", "number"),
+  "upstream.max_retries": setting("YANDEX_MAPS_MAX_RETRIES", "number"),
+
+  "cache.dir": setting("YANDEX_MAPS_CACHE_DIR"),
+  "cache.ttl_seconds": setting("YANDEX_MAPS_CACHE_TTL_SECONDS", "number"),
+  "cache.geocode_size": setting("YANDEX_MAPS_CACHE_GEOCODE_SIZE", "number"),
+  "cache.reverse_geocode_size": setting("YANDEX_MAPS_CACHE_REVERSE_GEOCODE_SIZE", "number"),
+  "cache.render_size": setting("YANDEX_MAPS_CACHE_RENDER_SIZE", "number"),
+  "cache.places_size": setting("YANDEX_MAPS_CACHE_PLACES_SIZE", "number"),
+
+  "rate_limits.session": setting("YANDEX_MAPS_RATE_LIMIT_SESSION", "number"),
+  "rate_limits.client": setting("YANDEX_MAPS_RATE_LIMIT_CLIENT", "number"),
+  "rate_limits.global": setting("YANDEX_MAPS_RATE_LIMIT_GLOBAL", "number"),
+  "rate_limits.upstream": setting("YANDEX_MAPS_RATE_LIMIT_UPSTREAM", "number"),
+
+  "quota.daily": setting("YANDEX_MAPS_DAILY_QUOTA", "number"),
+  "quota.daily_soft": setting("YANDEX_MAPS_DAILY_QUOTA_SOFT", "number"),
+  "quota.usage_file": setting("YANDEX_MAPS_USAGE_FILE"),
+
+  "http.auth_tokens": setting("YANDEX_MAPS_HTTP_AUTH_TOKENS", "list"),
+  "http.jwks_file": setting("YANDEX_MAPS_HTTP_JWKS_FILE"),
+  "http.jwt_issuer": setting("YANDEX_MAPS_HTTP_JWT_ISSUER"),
+  "http.jwt_audience": setting("YANDEX_MAPS_HTTP_JWT_AUDIENCE"),
+  "http.jwt_scope": setting("YANDEX_MAPS_HTTP_JWT_SCOPE"),
+  "http.allowed_origins": setting("YANDEX_MAPS_HTTP_ALLOWED_ORIGINS", "list"),
+  "http.admin_clients": setting("YANDEX_MAPS_HTTP_ADMIN_CLIENTS", "list"),
+  "http.ready_required_keys": setting("YANDEX_MAPS_READY_REQUIRED_KEYS", "list"),
+
+  "sessions.idle_timeout_seconds": setting("YANDEX_MAPS_SESSION_IDLE_TIMEOUT_SECONDS", "number"),
+  "sessions.max_lifetime_seconds": setting("YANDEX_MAPS_SESSION_MAX_LIFETIME_SECONDS", "number"),
+  "sessions.max": setting("YANDEX_MAPS_MAX_SESSIONS", "number"),
+  "sessions.limit_policy": setting("YANDEX_MAPS_SESSION_LIMIT_POLICY"),
+  "sessions.shutdown_timeout_seconds": setting("YANDEX_MAPS_SHUTDOWN_TIMEOUT_SECONDS", "number"),
+};
+
+const SECTIONS = new Set(Object.keys(SETTINGS).filter(key => key.includes(".")).map(key => key.split(".")[0]));
+
+export class ConfigFileError extends Error {
+  constructor(readonly file: string, readonly problems: string[]) {
+    super(`Invalid config file ${file}:\n${problems.map(problem => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigFileError";
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toEnvValue(path: string, type: SettingType, value: unknown, problems: string[]): string | undefined {
+  switch (type) {
+    case "number":
+      if (typeof value === "number" && Number.isFinite(value)) {
+        return String(value);
+      }
+      problems.push(`${path} must be a number`);
+      return undefined;
+    case "list":
+      if (Array.isArray(value) && value.every(item => typeof item === "string")) {
+        return value.join(",");
+      }
+      problems.push(`${path} must be a list of strings`);
+      return undefined;
+    case "string":
+      if (typeof value === "string") {
+        return value;
+      }
+      problems.push(`${path} must be a string`);
+      return undefined;
+  }
+}
+
+/**
+ * Translates a parsed config file into environment variable values. Unknown keys and
+ * values of the wrong type are collected and reported together.
+ */
+export function configToEnv(config: unknown, file: string): Record<string, string> {
+  if (!isPlainObject(config)) {
+    throw new ConfigFileError(file, ["the file must contain a mapping of settings"]);
+  }
+
+  const env: Record<string, string> = {};
+  const problems: string[] = [];
+  const visit = (object: Record<string, unknown>, prefix: string) => {
+    for (const [key, value] of Object.entries(object)) {
+      const path = prefix + key;
+      if (value === null || value === undefined) {
+        continue;
+      }
+      const known = SETTINGS[path];
+      if (known) {
+        const envValue = toEnvValue(path, known.type, value, problems);
+        if (envValue !== undefined) {
+          env[known.env] = envValue;
+        }
+      } else if (!prefix && SECTIONS.has(key)) {
+        if (isPlainObject(value)) {
+          visit(value, `${key}.`);
+        } else {
+          problems.push(`${path} must be a mapping`);
+        }
+      } else {
+        problems.push(`${path} is not a known setting`);
+      }
+    }
+  };
+  visit(config, "");
+
+  if (problems.length > 0) {
+    throw new ConfigFileError(file, problems);
+  }
+  return env;
+}
+
+/** Reads a JSON config file, or YAML for any other extension. */
+export async function loadConfigFile(file: string): Promise<Record<string, string>> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (error) {
+    throw new ConfigFileError(file, [`cannot be read: ${(error as Error).message}`]);
+  }
+
+  let config: unknown;
+  try {
+    config = extname(file).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ConfigFileError(file, [`cannot be parsed: ${(error as Error).message}`]);
+  }
+  return configToEnv(config ?? {}, file);
+}
+
+/**
+ * Copies settings from a config file into process.env without overriding variables
+ * that are already set, so the environment takes precedence over the file.
+ */
+export async function applyConfigFile(file: string): Promise<void> {
+  for (const [name, value] of Object.entries(await loadConfigFile(file))) {
+    if (process.env[name] === undefined) {
+      process.env[name] = value;
+    }
+  }
+}
@@ -1,28 +1,334 @@
+import { join } from "node:path";
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 
-function getApiKey(): string {
-  const apiKey = process.env.YANDEX_MAPS_API_KEY;
-  if (!apiKey) {
-    console.error("YANDEX_MAPS_API_KEY environment variable is not set");
-    process.exit(1);
+export const API_KEY_NAMES = [
+  "YANDEX_MAPS_API_KEY",
+  "YANDEX_MAPS_STATIC_API_KEY",
+  "YANDEX_MAPS_ROUTER_API_KEY",
+  "YANDEX_MAPS_PLACES_API_KEY",
+  "YANDEX_MAPS_SUGGEST_API_KEY"
+] as const;
+
+export type ApiKeyName = typeof API_KEY_NAMES[number];
+
+export class ToolNotConfiguredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolNotConfiguredError";
   }
-  return apiKey;
 }
 
-function getStaticApiKey(): string {
-  const apiKey = process.env.YANDEX_MAPS_STATIC_API_KEY;
+/**
+ * Reads an API key from the environment at call time, so the server can start
+ * with only some of the keys and expose just the tools they unlock.
+ */
+export function getApiKey(name: ApiKeyName): string {
+  const apiKey = process.env[name];
   if (!apiKey) {
-    console.error("YANDEX_MAPS_STATIC_API_KEY environment variable is not set");
-    process.exit(1);
+    throw new ToolNotConfiguredError(`${name} environment variable is not set`);
   }
   return apiKey;
 }
 
-export const YANDEX_MAPS_API_KEY = getApiKey();
-export const YANDEX_MAPS_STATIC_API_KEY = getStaticApiKey();
+export function hasApiKey(name: ApiKeyName): boolean {
+  return Boolean(process.env[name]);
+}
+
+/** Name of the environment variable holding an API key value, for usage accounting. */
+export function findApiKeyName(apiKey: string): ApiKeyName | undefined {
+  return API_KEY_NAMES.find(name => process.env[name] === apiKey);
+}
+
+/**
+ * Problems found in environment variables while this module loads. Invalid values
+ * fall back to their defaults here; the server refuses to start while the list is
+ * not empty, so every problem is reported at once.
+ */
+export const CONFIG_ERRORS: string[] = [];
+
+function getNumberEnv(name: string, defaultValue: number, { integer = false, max = Infinity } = {}): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > max || (integer && !Number.isInteger(parsed))) {
+    const kind = integer ? "a non-negative integer" : "a non-negative number";
+    CONFIG_ERRORS.push(`${name} must be ${kind}${max !== Infinity ? ` up to ${max}` : ''}, got "${value}"`);
+    return defaultValue;
+  }
+  return parsed;
+}
+
+function getListEnv(name: string): string[] {
+  return (process.env[name] ?? '').split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+function getApiKeyListEnv(name: string, defaultValue: ApiKeyName[]): ApiKeyName[] {
+  const names = getListEnv(name);
+  const unknown = names.filter(item => !API_KEY_NAMES.includes(item as ApiKeyName));
+  if (unknown.length > 0) {
+    CONFIG_ERRORS.push(`${name} contains unknown API keys: ${unknown.join(', ')}`);
+    return defaultValue;
+  }
+  return names.length > 0 ? names as ApiKeyName[] : defaultValue;
+}
 
-export const YANDEX_MAPS_GEOCODER_BASE_URL = "https://geocode-maps.yandex.ru/1.x/";
-export const YANDEX_MAPS_STATIC_BASE_URL = "https://static-maps.yandex.ru/v1";
+function getChoiceEnv<T extends string>(name: string, choices: readonly T[], defaultValue: T): T {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  if (!choices.includes(value as T)) {
+    CONFIG_ERRORS.push(`${name} must be one of ${choices.join(', ')}, got "${value}"`);
+    return defaultValue;
+  }
+  return value as T;
+}
+
+function getUrlEnv(name: string, defaultValue: string): string {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error();
+    }
+  } catch {
+    CONFIG_ERRORS.push(`${name} must be an http or https URL, got "${value}"`);
+    return defaultValue;
+  }
+  return value;
+}
+
+export const SERVER_INFO = {
+  name: "mcp-server/yandex-maps",
+  version: "0.1.0",
+};
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+export const LOG_LEVEL = getChoiceEnv("YANDEX_MAPS_LOG_LEVEL", LOG_LEVELS, "info");
+
+export const TRANSPORTS = ["stdio", "http", "sse"] as const;
+export type TransportType = typeof TRANSPORTS[number];
+export const TRANSPORT = getChoiceEnv("YANDEX_MAPS_TRANSPORT", TRANSPORTS, "stdio");
+export const HTTP_PORT = getNumberEnv("PORT", 3000, { integer: true, max: 65535 });
+export const HTTP_HOST = process.env.HOST || "0.0.0.0";
+
+// Tool selection; names are checked against the registry at startup
+export const ENABLED_TOOLS = process.env.YANDEX_MAPS_ENABLE_TOOLS ? getListEnv("YANDEX_MAPS_ENABLE_TOOLS") : undefined;
+export const DISABLED_TOOLS = getListEnv("YANDEX_MAPS_DISABLE_TOOLS");
+
+export const UPSTREAM_TIMEOUT_MS = getNumberEnv("YANDEX_MAPS_TIMEOUT_MS", 10000);
+export const UPSTREAM_MAX_RETRIES = getNumberEnv("YANDEX_MAPS_MAX_RETRIES", 2, { integer: true });
+export const UPSTREAM_RETRY_BASE_DELAY_MS = 500;
+export const UPSTREAM_RETRY_MAX_DELAY_MS = 10000;
+
+export const CACHE_TTL_MS = getNumberEnv("YANDEX_MAPS_CACHE_TTL_SECONDS", 86400) * 1000;
+export const CACHE_DIR = process.env.YANDEX_MAPS_CACHE_DIR || undefined;
+export const CACHE_GEOCODE_MAX_ENTRIES = getNumberEnv("YANDEX_MAPS_CACHE_GEOCODE_SIZE", 1000);
+export const CACHE_REVERSE_GEOCODE_MAX_ENTRIES = getNumberEnv("YANDEX_MAPS_CACHE_REVERSE_GEOCODE_SIZE", 1000);
+export const CACHE_RENDER_MAX_ENTRIES = getNumberEnv("YANDEX_MAPS_CACHE_RENDER_SIZE", 100);
+export const CACHE_PLACES_MAX_ENTRIES = getNumberEnv("YANDEX_MAPS_CACHE_PLACES_SIZE", 1000);
+
+export const HTTP_AUTH_TOKENS = getListEnv("YANDEX_MAPS_HTTP_AUTH_TOKENS");
+export const HTTP_JWKS_FILE = process.env.YANDEX_MAPS_HTTP_JWKS_FILE || undefined;
+export const HTTP_JWT_ISSUER = process.env.YANDEX_MAPS_HTTP_JWT_ISSUER || undefined;
+export const HTTP_JWT_AUDIENCE = process.env.YANDEX_MAPS_HTTP_JWT_AUDIENCE || undefined;
+export const HTTP_JWT_REQUIRED_SCOPE = process.env.YANDEX_MAPS_HTTP_JWT_SCOPE || undefined;
+export const JWKS_RELOAD_INTERVAL_MS = 30000;
+export const HTTP_ALLOWED_ORIGINS = getListEnv("YANDEX_MAPS_HTTP_ALLOWED_ORIGINS");
+export const HTTP_ADMIN_CLIENTS = getListEnv("YANDEX_MAPS_HTTP_ADMIN_CLIENTS");
+if (HTTP_ADMIN_CLIENTS.some(client => !client.startsWith("token:") && !client.startsWith("jwt:"))) {
+  CONFIG_ERRORS.push("YANDEX_MAPS_HTTP_ADMIN_CLIENTS entries must be client IDs starting with token: or jwt:");
+}
+
+// HTTP session lifecycle; 0 disables a timeout or the session limit
+export const SESSION_IDLE_TIMEOUT_MS = getNumberEnv("YANDEX_MAPS_SESSION_IDLE_TIMEOUT_SECONDS", 1800) * 1000;
+export const SESSION_MAX_LIFETIME_MS = getNumberEnv("YANDEX_MAPS_SESSION_MAX_LIFETIME_SECONDS", 86400) * 1000;
+export const MAX_SESSIONS = getNumberEnv("YANDEX_MAPS_MAX_SESSIONS", 100, { integer: true });
+export const SESSION_LIMIT_POLICIES = ["reject", "evict"] as const;
+export type SessionLimitPolicy = typeof SESSION_LIMIT_POLICIES[number];
+export const SESSION_LIMIT_POLICY = getChoiceEnv("YANDEX_MAPS_SESSION_LIMIT_POLICY", SESSION_LIMIT_POLICIES, "reject");
+export const SESSION_SWEEP_INTERVAL_MS = 10000;
+// Largest JSON-RPC message or batch accepted by POST /mcp
+export const MAX_REQUEST_BODY_BYTES = 4 * 1024 * 1024;
+export const SHUTDOWN_TIMEOUT_MS = getNumberEnv("YANDEX_MAPS_SHUTDOWN_TIMEOUT_SECONDS", 10) * 1000;
+
+// API keys the /ready probe requires; their endpoints must also be reachable
+export const READY_REQUIRED_API_KEYS = getApiKeyListEnv("YANDEX_MAPS_READY_REQUIRED_KEYS", ["YANDEX_MAPS_API_KEY"]);
+export const READY_PROBE_TIMEOUT_MS = 3000;
+export const READY_PROBE_INTERVAL_MS = 30000;
+
+// Rate limits are requests per minute; 0 disables the limit
+export const RATE_LIMIT_SESSION_PER_MINUTE = getNumberEnv("YANDEX_MAPS_RATE_LIMIT_SESSION", 60);
+export const RATE_LIMIT_CLIENT_PER_MINUTE = getNumberEnv("YANDEX_MAPS_RATE_LIMIT_CLIENT", 120);
+export const RATE_LIMIT_GLOBAL_PER_MINUTE = getNumberEnv("YANDEX_MAPS_RATE_LIMIT_GLOBAL", 600);
+// Yandex requests a tool call makes beyond its first, such as batch items, per session and per client
+export const RATE_LIMIT_UPSTREAM_PER_MINUTE = getNumberEnv("YANDEX_MAPS_RATE_LIMIT_UPSTREAM", 1000);
+
+// Daily upstream request quotas per API key; 0 disables the threshold
+export const DAILY_QUOTA_SOFT = getNumberEnv("YANDEX_MAPS_DAILY_QUOTA_SOFT", 0);
+export const DAILY_QUOTA_HARD = getNumberEnv("YANDEX_MAPS_DAILY_QUOTA", 0);
+export const USAGE_FILE = process.env.YANDEX_MAPS_USAGE_FILE || (CACHE_DIR ? join(CACHE_DIR, "usage.json") : undefined);
+export const USAGE_HISTORY_DAYS = 30;
+
+if (DAILY_QUOTA_SOFT > 0 && DAILY_QUOTA_HARD > 0 && DAILY_QUOTA_SOFT > DAILY_QUOTA_HARD) {
+  CONFIG_ERRORS.push(`YANDEX_MAPS_DAILY_QUOTA_SOFT (${DAILY_QUOTA_SOFT}) must not exceed YANDEX_MAPS_DAILY_QUOTA (${DAILY_QUOTA_HARD})`);
+}
+
+export const MAX_STATIC_URL_LENGTH = 8000;
+export const MAX_SHAPES = 20;
+export const DEFAULT_SHAPE_COLOR = "0066ff";
+
+export const PLACEMARK_STYLES = ["pm", "pm2", "flag", "vkbkm", "vkgrm", "comma", "round", "home", "work", "ya_ru"];
+export const PLACEMARK_COLORED_STYLES = ["pm", "pm2"];
+export const PLACEMARK_COLORS = ["wt", "do", "db", "bl", "gn", "dg", "gr", "lb", "nt", "or", "pn", "rd", "vv", "yw"];
+export const PLACEMARK_SIZES = ["s", "m", "l"];
+export const MAP_LAYERS: Record<string, string> = {
+  map: "map",
+  satellite: "sat",
+  hybrid: "sat,skl",
+  traffic: "map,trf",
+};
+export const MAX_MAP_WIDTH = 650;
+export const MAX_MAP_HEIGHT = 450;
+export const MAX_ZOOM = 21;
+export const DEFAULT_VIEWPORT_PADDING = 0.1;
+export const MIN_VIEWPORT_SPAN = 0.005;
+
+export const SUPPORTED_LANGUAGES = ["ru_RU", "uk_UA", "be_BY", "en_RU", "en_US", "tr_TR", "uz_UZ", "kk_KZ"];
+
+/** Language used when a tool call or prompt leaves out `lang`; without it `lang` is required. */
+export const DEFAULT_LANG = getChoiceEnv<string>("YANDEX_MAPS_DEFAULT_LANG", SUPPORTED_LANGUAGES, "") || undefined;
+
+export const MAX_PLACEMARKS = 100;
+
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+export const MAX_BATCH_CONCURRENCY = 20;
+export const MAX_BATCH_ITEMS = 500;
+
+export const GEOMETRY_OPERATIONS = [
+  "distance",
+  "distance_matrix",
+  "bearing",
+  "midpoint",
+  "bbox",
+  "point_in_polygon",
+  "buffer",
+  "nearest"
+] as const;
+export const MAX_GEOMETRY_POINTS = 1000;
+export const MAX_DISTANCE_MATRIX_CELLS = 10000;
+export const DEFAULT_BUFFER_SEGMENTS = 32;
+
+export const ROUTE_MODES = ["driving", "walking", "transit", "truck"] as const;
+export const MAX_ROUTE_WAYPOINTS = 20;
+export const DISTANCE_MATRIX_METHODS = ["router", "straight_line"] as const;
+export const MAX_MATRIX_POINTS = 100;
+// The Router API accepts at most this many origin-destination pairs per request
+export const MATRIX_CHUNK_CELLS = 100;
+
+export const MAX_PLACES_RESULTS = 50;
+export const MAX_MAP_RESOURCES = 100;
+export const MAX_PLACE_RESOURCES = 1000;
+export const SUGGEST_TYPES: Record<string, string> = {
+  address: "geo",
+  business: "biz",
+  transit: "transit"
+};
+export const MAX_SUGGEST_RESULTS = 10;
+
+export const YANDEX_MAPS_GEOCODER_BASE_URL = getUrlEnv("YANDEX_MAPS_GEOCODER_BASE_URL", "https://geocode-maps.yandex.ru/1.x/");
+export const YANDEX_MAPS_STATIC_BASE_URL = getUrlEnv("YANDEX_MAPS_STATIC_BASE_URL", "https://static-maps.yandex.ru/v1");
+export const YANDEX_MAPS_ROUTER_BASE_URL = getUrlEnv("YANDEX_MAPS_ROUTER_BASE_URL", "https://api.routing.yandex.net/v2");
+export const YANDEX_MAPS_PLACES_BASE_URL = getUrlEnv("YANDEX_MAPS_PLACES_BASE_URL", "https://search-maps.yandex.ru/v1/");
+export const YANDEX_MAPS_SUGGEST_BASE_URL = getUrlEnv("YANDEX_MAPS_SUGGEST_BASE_URL", "https://suggest-maps.yandex.ru/v1/suggest");
+
+/** Endpoint each API key is used with, probed by the /ready check. */
+export const API_KEY_BASE_URLS: Record<ApiKeyName, string> = {
+  YANDEX_MAPS_API_KEY: YANDEX_MAPS_GEOCODER_BASE_URL,
+  YANDEX_MAPS_STATIC_API_KEY: YANDEX_MAPS_STATIC_BASE_URL,
+  YANDEX_MAPS_ROUTER_API_KEY: YANDEX_MAPS_ROUTER_BASE_URL,
+  YANDEX_MAPS_PLACES_API_KEY: YANDEX_MAPS_PLACES_BASE_URL,
+  YANDEX_MAPS_SUGGEST_API_KEY: YANDEX_MAPS_SUGGEST_BASE_URL
+};
+
+const ADDRESS_COMPONENT_PROPERTIES = {
+  country: {
+    type: "string",
+    description: "The country name"
+  },
+  state: {
+    type: "string",
+    description: "The state, region or province name"
+  },
+  city: {
+    type: "string",
+    description: "The city or locality name"
+  },
+  district: {
+    type: "string",
+    description: "The district or neighborhood within the city"
+  },
+  street: {
+    type: "string",
+    description: "The street name"
+  },
+  house_number: {
+    type: "string",
+    description: "The house or building number"
+  }
+};
+
+const SEARCH_AREA_PROPERTIES = {
+  area_latitude: {
+    type: "number",
+    description: "Latitude of the center of the preferred search area"
+  },
+  area_longitude: {
+    type: "number",
+    description: "Longitude of the center of the preferred search area"
+  },
+  area_latitude_span: {
+    type: "number",
+    description: "Height of the preferred search area in degrees"
+  },
+  area_longitude_span: {
+    type: "number",
+    description: "Width of the preferred search area in degrees"
+  },
+  bbox: {
+    type: "object",
+    description: "Preferred search area as an explicit bounding box, used instead of the center and span",
+    properties: {
+      min_latitude: { type: "number", description: "Latitude of the south-west corner" },
+      min_longitude: { type: "number", description: "Longitude of the south-west corner" },
+      max_latitude: { type: "number", description: "Latitude of the north-east corner" },
+      max_longitude: { type: "number", description: "Longitude of the north-east corner" }
+    },
+    required: ["min_latitude", "min_longitude", "max_latitude", "max_longitude"]
+  },
+  strict_area: {
+    type: "boolean",
+    description: "Return only results located inside the search area (default false, the area only biases ranking)"
+  }
+};
+
+export const REVERSE_GEOCODE_KINDS = ["house", "street", "metro", "district", "locality"] as const;
+
+export const GEOCODE_OUTPUT_FORMATS = ["json", "geojson", "wkt"] as const;
+
+const OUTPUT_FORMAT_PROPERTIES = {
+  output_format: {
+    type: "string",
+    enum: [...GEOCODE_OUTPUT_FORMATS],
+    description: "Result format: 'json' (default), 'geojson' for a FeatureCollection of points with the address metadata in properties, or 'wkt' for one POINT per result and line"
+  }
+};
 
 export const GEOCODE_TOOL: Tool = {
   name: "maps_geocode",
@@ -30,36 +336,50 @@ export const GEOCODE_TOOL: Tool = {
   inputSchema: {
     type: "object",
     properties: {
-      country: {
-        type: "string",
-        description: "The country name"
-      },
-      state: {
+      ...ADDRESS_COMPONENT_PROPERTIES,
+      lang: {
         type: "string",
-        description: "The state, region or province name"
+        description: "Language code, e.g. 'ru_RU', 'en_US'"
       },
-      city: {
+      ...SEARCH_AREA_PROPERTIES,
+      ...OUTPUT_FORMAT_PROPERTIES
+    },
+    required: ["country", "lang"]
+  }
+};
+
+export const GEOCODE_QUERY_TOOL: Tool = {
+  name: "maps_geocode_query",
+  description: "Convert a free-form address or place name into a ranked list of candidate locations. Use it when the input is ambiguous and the right match has to be picked or confirmed with the user",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
         type: "string",
-        description: "The city or locality name"
+        description: "Free-form address or toponym, e.g. 'Lenina 10' or 'Moscow, Tverskaya 7'"
       },
-      district: {
+      uri: {
         type: "string",
-        description: "The district or neighborhood within the city"
+        description: "Object identifier returned by maps_suggest, used instead of query"
       },
-      street: {
-        type: "string",
-        description: "The street name"
+      results: {
+        type: "integer",
+        minimum: 1,
+        maximum: 50,
+        description: "Maximum number of candidates to return (1-50, default 10)"
       },
-      house_number: {
-        type: "string",
-        description: "The house or building number"
+      skip: {
+        type: "integer",
+        minimum: 0,
+        description: "Number of candidates to skip, for paging through results (default 0)"
       },
       lang: {
         type: "string",
         description: "Language code, e.g. 'ru_RU', 'en_US'"
-      }
+      },
+      ...OUTPUT_FORMAT_PROPERTIES
     },
-    required: ["country", "lang"]
+    required: ["lang"]
   }
 };
 
@@ -80,33 +400,180 @@ export const REVERSE_GEOCODE_TOOL: Tool = {
       lang: {
         type: "string",
         description: "Language code, e.g. 'ru_RU', 'en_US'"
-      }
+      },
+      kind: {
+        type: "string",
+        enum: [...REVERSE_GEOCODE_KINDS],
+        description: "Type of object to look for near the coordinates, e.g. 'metro' for the nearest metro station"
+      },
+      results: {
+        type: "integer",
+        minimum: 1,
+        maximum: 50,
+        description: "Maximum number of objects to return (1-50, default 1)"
+      },
+      ...SEARCH_AREA_PROPERTIES,
+      ...OUTPUT_FORMAT_PROPERTIES
     },
     required: ["latitude", "longitude", "lang"]
   }
 };
 
+export const GEOCODE_BATCH_TOOL: Tool = {
+  name: "maps_geocode_batch",
+  description: "Geocode many addresses and reverse geocode many coordinates in one call. Returns one result per input, in input order, each with either a location or an error",
+  inputSchema: {
+    type: "object",
+    properties: {
+      addresses: {
+        type: "array",
+        description: "Addresses to convert into coordinates, either free-form strings or address component objects",
+        maxItems: MAX_BATCH_ITEMS,
+        items: {
+          oneOf: [
+            {
+              type: "string",
+              description: "Free-form address"
+            },
+            {
+              type: "object",
+              properties: ADDRESS_COMPONENT_PROPERTIES,
+              required: ["country"]
+            }
+          ]
+        }
+      },
+      coordinates: {
+        type: "array",
+        description: "Coordinates to convert into addresses",
+        maxItems: MAX_BATCH_ITEMS,
+        items: {
+          type: "object",
+          properties: {
+            latitude: {
+              type: "number",
+              description: "Latitude coordinate"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude coordinate"
+            }
+          },
+          required: ["latitude", "longitude"]
+        }
+      },
+      concurrency: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_BATCH_CONCURRENCY,
+        description: `Maximum number of parallel requests to the geocoder (1-${MAX_BATCH_CONCURRENCY}, default ${DEFAULT_BATCH_CONCURRENCY})`
+      },
+      lang: {
+        type: "string",
+        description: "Language code, e.g. 'ru_RU', 'en_US'"
+      },
+      ...SEARCH_AREA_PROPERTIES,
+      ...OUTPUT_FORMAT_PROPERTIES
+    },
+    required: ["lang"]
+  }
+};
+
+const SHAPE_POINTS_PROPERTY = {
+  type: "array",
+  description: "Coordinates of the shape vertices, in drawing order",
+  minItems: 2,
+  items: {
+    type: "object",
+    properties: {
+      latitude: {
+        type: "number",
+        description: "Latitude coordinate of the vertex"
+      },
+      longitude: {
+        type: "number",
+        description: "Longitude coordinate of the vertex"
+      }
+    },
+    required: ["latitude", "longitude"]
+  }
+};
+
+const SHAPE_STYLE_PROPERTIES = {
+  stroke_color: {
+    type: "string",
+    pattern: "^#?[0-9a-fA-F]{6}$",
+    description: "Stroke color as a hex RGB value, e.g. '#0066ff' (default '#0066ff')"
+  },
+  stroke_width: {
+    type: "number",
+    minimum: 1,
+    maximum: 20,
+    description: "Stroke width in pixels (default 3)"
+  },
+  opacity: {
+    type: "number",
+    minimum: 0,
+    maximum: 1,
+    description: "Opacity from 0 (transparent) to 1 (opaque) (default 1 for strokes, 0.4 for fills)"
+  }
+};
+
 export const RENDER_MAP_TOOL: Tool = {
   name: "maps_render",
-  description: "Render a map as a png image",
+  description: "Render a map as a png image. When the center or span is omitted, the viewport is fitted to the placemarks and shapes; the viewport actually used is reported with the image",
   inputSchema: {
     type: "object",
     properties: {
       latitude: {
         type: "number",
-        description: "Latitude coordinate of map center"
+        description: "Latitude coordinate of map center (default: fitted to placemarks and shapes)"
       },
       longitude: {
         type: "number",
-        description: "Longitude coordinate of map center"
+        description: "Longitude coordinate of map center (default: fitted to placemarks and shapes)"
       },
       latitude_span: {
         type: "number",
-        description: "Height of map image in degrees"
+        description: "Height of map image in degrees (default: fitted to placemarks and shapes unless zoom is given)"
       },
       longitude_span: {
         type: "number",
-        description: "Width of map image in degrees"
+        description: "Width of map image in degrees (default: fitted to placemarks and shapes unless zoom is given)"
+      },
+      padding: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: `Margin added on each side of a fitted viewport, as a fraction of its span (default ${DEFAULT_VIEWPORT_PADDING})`
+      },
+      zoom: {
+        type: "integer",
+        minimum: 0,
+        maximum: MAX_ZOOM,
+        description: `Zoom level from 0 (whole world) to ${MAX_ZOOM} (single building), used instead of latitude_span and longitude_span`
+      },
+      layer: {
+        type: "string",
+        enum: Object.keys(MAP_LAYERS),
+        description: "Map layer: 'map' (default), 'satellite', 'hybrid' (satellite with labels) or 'traffic'"
+      },
+      theme: {
+        type: "string",
+        enum: ["light", "dark"],
+        description: "Color theme of the map (default 'light')"
+      },
+      width: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_MAP_WIDTH,
+        description: `Image width in pixels (at most ${MAX_MAP_WIDTH}, default 650)`
+      },
+      height: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_MAP_HEIGHT,
+        description: `Image height in pixels (at most ${MAX_MAP_HEIGHT}, default 450)`
       },
       lang: {
         type: "string",
@@ -114,7 +581,7 @@ export const RENDER_MAP_TOOL: Tool = {
       },
       placemarks: {
         type: "array",
-        description: "Array of placemarks to display on the map",
+        description: `Array of placemarks to display on the map (at most ${MAX_PLACEMARKS})`,
         items: {
           type: "object",
           properties: {
@@ -125,18 +592,300 @@ export const RENDER_MAP_TOOL: Tool = {
             longitude: {
               type: "number",
               description: "Longitude coordinate of the placemark"
+            },
+            style: {
+              type: "string",
+              enum: PLACEMARK_STYLES,
+              description: "Placemark style (default 'pm2'). Only 'pm' and 'pm2' support color, size and label"
+            },
+            color: {
+              type: "string",
+              enum: PLACEMARK_COLORS,
+              description: "Placemark color: wt (white), do (dark orange), db (dark blue), bl (blue), gn (green), dg (dark green), gr (gray), lb (light blue), nt (dark), or (orange), pn (pink), rd (red, default), vv (violet), yw (yellow)"
+            },
+            size: {
+              type: "string",
+              enum: PLACEMARK_SIZES,
+              description: "Placemark size: s (small, 'pm' style only), m (medium, default) or l (large)"
+            },
+            label: {
+              oneOf: [
+                { type: "integer", minimum: 1, maximum: 99 },
+                { type: "string", enum: ["a", "b"] }
+              ],
+              description: "Label shown on the placemark: a number from 1 to 99, or the letter 'a' or 'b' ('pm2' style only, ignores color)"
             }
           },
           required: ["latitude", "longitude"]
         }
+      },
+      polylines: {
+        type: "array",
+        description: `Lines to draw on the map, e.g. routes (at most ${MAX_SHAPES} shapes in total). Long coordinate lists are simplified automatically to fit the URL length limit`,
+        items: {
+          type: "object",
+          properties: {
+            points: SHAPE_POINTS_PROPERTY,
+            ...SHAPE_STYLE_PROPERTIES
+          },
+          required: ["points"]
+        }
+      },
+      polygons: {
+        type: "array",
+        description: `Filled areas to draw on the map, e.g. delivery zones (at most ${MAX_SHAPES} shapes in total). The contour is closed automatically`,
+        items: {
+          type: "object",
+          properties: {
+            points: {
+              ...SHAPE_POINTS_PROPERTY,
+              minItems: 3
+            },
+            ...SHAPE_STYLE_PROPERTIES,
+            fill_color: {
+              type: "string",
+              pattern: "^#?[0-9a-fA-F]{6}$",
+              description: "Fill color as a hex RGB value, e.g. '#00ff00' (default same as stroke color)"
+            }
+          },
+          required: ["points"]
+        }
+      }
+    },
+    required: ["lang"]
+  }
+};
+
+const GEOMETRY_POINT_PROPERTY = {
+  type: "object",
+  properties: {
+    latitude: {
+      type: "number",
+      description: "Latitude coordinate"
+    },
+    longitude: {
+      type: "number",
+      description: "Longitude coordinate"
+    }
+  },
+  required: ["latitude", "longitude"]
+};
+
+export const GEOMETRY_TOOL: Tool = {
+  name: "maps_geometry",
+  description: "Geometry on the Earth's surface computed locally without API calls. Points are {latitude, longitude} objects as returned by the geocoding tools; extra properties on points are passed through to the results. Operations: " +
+    "distance (from, to) - great-circle distance in meters; " +
+    "distance_matrix (points, optional destinations) - distances from every point to every destination, or between all points; " +
+    "bearing (from, to) - initial bearing in degrees clockwise from north; " +
+    "midpoint (from, to) - point halfway along the great circle; " +
+    "bbox (points) - bounding box, antimeridian-aware; " +
+    "point_in_polygon (points, polygon) - which points lie inside the polygon; " +
+    "buffer (from, radius_meters, optional segments) - polygon approximating a circle around a point, ready for maps_render polygons; " +
+    "nearest (from, points, optional limit) - points ranked by distance from a point",
+  inputSchema: {
+    type: "object",
+    properties: {
+      operation: {
+        type: "string",
+        enum: [...GEOMETRY_OPERATIONS],
+        description: "Computation to perform"
+      },
+      from: {
+        ...GEOMETRY_POINT_PROPERTY,
+        description: "Start point for distance and bearing, center for buffer and nearest"
+      },
+      to: {
+        ...GEOMETRY_POINT_PROPERTY,
+        description: "End point for distance, bearing and midpoint"
+      },
+      points: {
+        type: "array",
+        description: "Points for distance_matrix, bbox, point_in_polygon and nearest",
+        minItems: 1,
+        maxItems: MAX_GEOMETRY_POINTS,
+        items: GEOMETRY_POINT_PROPERTY
+      },
+      destinations: {
+        type: "array",
+        description: "Matrix columns for distance_matrix (default: the points themselves)",
+        minItems: 1,
+        maxItems: MAX_GEOMETRY_POINTS,
+        items: GEOMETRY_POINT_PROPERTY
+      },
+      polygon: {
+        type: "array",
+        description: "Polygon vertices for point_in_polygon, in order; the contour is closed automatically",
+        minItems: 3,
+        maxItems: MAX_GEOMETRY_POINTS,
+        items: GEOMETRY_POINT_PROPERTY
+      },
+      radius_meters: {
+        type: "number",
+        exclusiveMinimum: 0,
+        maximum: 1000000,
+        description: "Buffer radius in meters"
+      },
+      segments: {
+        type: "integer",
+        minimum: 4,
+        maximum: 360,
+        description: `Number of polygon vertices for buffer (default ${DEFAULT_BUFFER_SEGMENTS})`
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum number of points returned by nearest (default: all)"
       }
     },
-    required: ["latitude", "longitude", "latitude_span", "longitude_span", "lang"]
+    required: ["operation"]
   }
 };
 
-export const MAPS_TOOLS = [
-  GEOCODE_TOOL,
-  REVERSE_GEOCODE_TOOL,
-  RENDER_MAP_TOOL,
-] as const;
\ No newline at end of file
+export const ROUTE_TOOL: Tool = {
+  name: "maps_route",
+  description: "Build a route between two points, optionally through waypoints. Returns distance, duration, duration in traffic where available, step-by-step maneuvers and the route geometry, which can be passed to maps_render as a polyline",
+  inputSchema: {
+    type: "object",
+    properties: {
+      origin: {
+        ...GEOMETRY_POINT_PROPERTY,
+        description: "Start of the route"
+      },
+      destination: {
+        ...GEOMETRY_POINT_PROPERTY,
+        description: "End of the route"
+      },
+      waypoints: {
+        type: "array",
+        description: `Intermediate points to visit in order (at most ${MAX_ROUTE_WAYPOINTS})`,
+        maxItems: MAX_ROUTE_WAYPOINTS,
+        items: GEOMETRY_POINT_PROPERTY
+      },
+      mode: {
+        type: "string",
+        enum: [...ROUTE_MODES],
+        description: "Travel mode (default driving)"
+      },
+      departure_time: {
+        type: "string",
+        description: "Departure time as an ISO 8601 date, e.g. '2024-05-01T09:00:00+03:00' (default now). Used for traffic and transit schedules"
+      }
+    },
+    required: ["origin", "destination"]
+  }
+};
+
+export const DISTANCE_MATRIX_TOOL: Tool = {
+  name: "maps_distance_matrix",
+  description: "Travel distances and durations from every origin to every destination, e.g. to find the closest courier for each order. Uses the Yandex Router API when YANDEX_MAPS_ROUTER_API_KEY is configured and straight-line distance otherwise. Every cell has its own status",
+  inputSchema: {
+    type: "object",
+    properties: {
+      origins: {
+        type: "array",
+        description: `Start points, matrix rows (at most ${MAX_MATRIX_POINTS})`,
+        minItems: 1,
+        maxItems: MAX_MATRIX_POINTS,
+        items: GEOMETRY_POINT_PROPERTY
+      },
+      destinations: {
+        type: "array",
+        description: `End points, matrix columns (at most ${MAX_MATRIX_POINTS})`,
+        minItems: 1,
+        maxItems: MAX_MATRIX_POINTS,
+        items: GEOMETRY_POINT_PROPERTY
+      },
+      mode: {
+        type: "string",
+        enum: [...ROUTE_MODES],
+        description: "Travel mode (default driving)"
+      },
+      method: {
+        type: "string",
+        enum: [...DISTANCE_MATRIX_METHODS],
+        description: "router for road network distances and durations, straight_line for great-circle distances without durations (default: router when the router key is configured, straight_line otherwise)"
+      },
+      concurrency: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_BATCH_CONCURRENCY,
+        description: `Maximum number of parallel requests to the router (1-${MAX_BATCH_CONCURRENCY}, default ${DEFAULT_BATCH_CONCURRENCY})`
+      }
+    },
+    required: ["origins", "destinations"]
+  }
+};
+
+export const SEARCH_PLACES_TOOL: Tool = {
+  name: "maps_search_places",
+  description: "Search organizations and points of interest, e.g. pharmacies near an address, by text or category within an area. Returns name, address, location, categories, phones, website and opening hours for each place. Locations can be passed to maps_render as placemarks",
+  inputSchema: {
+    type: "object",
+    properties: {
+      text: {
+        type: "string",
+        description: "What to search for, e.g. 'coffee shop', 'Starbucks' or 'pharmacy on Tverskaya'"
+      },
+      category: {
+        type: "string",
+        description: "Category of places, e.g. 'pharmacy', 'cafe', 'atm'. Combined with text when both are given"
+      },
+      results: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_PLACES_RESULTS,
+        description: `Maximum number of places to return (1-${MAX_PLACES_RESULTS}, default 10)`
+      },
+      lang: {
+        type: "string",
+        description: "Language code, e.g. 'ru_RU', 'en_US'"
+      },
+      ...SEARCH_AREA_PROPERTIES
+    },
+    required: ["lang"]
+  }
+};
+
+export const SUGGEST_TOOL: Tool = {
+  name: "maps_suggest",
+  description: "Autocomplete a partial or misspelled address, business name or transit stop. Returns ranked suggestions with title, subtitle and highlighted matches. Each suggestion has a uri that maps_geocode_query resolves into a location",
+  inputSchema: {
+    type: "object",
+    properties: {
+      text: {
+        type: "string",
+        description: "Partial text typed by the user, e.g. 'Tverskaya 1'"
+      },
+      types: {
+        type: "array",
+        description: "Kinds of objects to suggest (default all)",
+        minItems: 1,
+        items: {
+          type: "string",
+          enum: Object.keys(SUGGEST_TYPES)
+        }
+      },
+      results: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_SUGGEST_RESULTS,
+        description: `Maximum number of suggestions to return (1-${MAX_SUGGEST_RESULTS}, default 5)`
+      },
+      lang: {
+        type: "string",
+        description: "Language code, e.g. 'ru_RU', 'en_US'"
+      },
+      ...SEARCH_AREA_PROPERTIES
+    },
+    required: ["text", "lang"]
+  }
+};
+
+export const USAGE_TOOL: Tool = {
+  name: "maps_usage",
+  description: "Report today's consumption: upstream requests per API key against the daily quota, calls per tool, and the configured rate limits. Does not count against any limit",
+  inputSchema: {
+    type: "object",
+    properties: {}
+  }
+};
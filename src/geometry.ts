@@ -0,0 +1,237 @@
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+function perpendicularDistance(point: LatLng, start: LatLng, end: LatLng): number {
+  const dx = end.longitude - start.longitude;
+  const dy = end.latitude - start.latitude;
+  if (dx === 0 && dy === 0) {
+    return Math.hypot(point.longitude - start.longitude, point.latitude - start.latitude);
+  }
+  const t = ((point.longitude - start.longitude) * dx + (point.latitude - start.latitude) * dy) / (dx * dx + dy * dy);
+  const clamped = Math.max(0, Math.min(1, t));
+  return Math.hypot(
+    point.longitude - (start.longitude + clamped * dx),
+    point.latitude - (start.latitude + clamped * dy)
+  );
+}
+
+/**
+ * Douglas–Peucker simplification in plain degrees. Keeps the first and last points
+ * and every point farther than `tolerance` degrees from the simplified line.
+ */
+export function simplifyPath(points: LatLng[], tolerance: number): LatLng[] {
+  if (points.length <= 2 || tolerance <= 0) {
+    return points;
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  const ranges: Array<[number, number]> = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop() as [number, number];
+    let maxDistance = 0;
+    let maxIndex = first;
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      ranges.push([first, maxIndex], [maxIndex, last]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+}
+
+export interface BoundingBox {
+  min_latitude: number;
+  min_longitude: number;
+  max_latitude: number;
+  max_longitude: number;
+}
+
+export function normalizeLongitude(longitude: number): number {
+  const normalized = ((longitude + 180) % 360 + 360) % 360 - 180;
+  return normalized === -180 && longitude > 0 ? 180 : normalized;
+}
+
+/**
+ * Smallest bounding box of the points. Longitudes are treated as a circle, so a
+ * set straddling the antimeridian gets min_longitude > max_longitude instead of a
+ * box spanning the whole world.
+ */
+export function boundingBox(points: LatLng[]): BoundingBox {
+  if (points.length === 0) {
+    throw new Error("Cannot compute a bounding box of no points");
+  }
+
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = [...new Set(points.map(point => normalizeLongitude(point.longitude)))].sort((a, b) => a - b);
+
+  // The box covers everything except the largest empty gap between neighbouring longitudes
+  let gapStart = longitudes.length - 1;
+  let maxGap = longitudes[0] + 360 - longitudes[longitudes.length - 1];
+  for (let i = 0; i < longitudes.length - 1; i++) {
+    const gap = longitudes[i + 1] - longitudes[i];
+    if (gap > maxGap) {
+      maxGap = gap;
+      gapStart = i;
+    }
+  }
+
+  return {
+    min_latitude: Math.min(...latitudes),
+    max_latitude: Math.max(...latitudes),
+    min_longitude: longitudes[(gapStart + 1) % longitudes.length],
+    max_longitude: longitudes[gapStart]
+  };
+}
+
+/** Width of a bounding box in degrees of longitude, accounting for antimeridian crossing. */
+export function longitudeSpan(box: BoundingBox): number {
+  const span = box.max_longitude - box.min_longitude;
+  return span < 0 ? span + 360 : span;
+}
+
+export interface Viewport {
+  latitude: number;
+  longitude: number;
+  latitude_span: number;
+  longitude_span: number;
+}
+
+/**
+ * Center and span showing all points, with `padding` added on each side as a
+ * fraction of the span and at least `minSpan` degrees in each direction.
+ */
+export function fitViewport(points: LatLng[], padding: number, minSpan: number): Viewport {
+  const box = boundingBox(points);
+  const lonSpan = longitudeSpan(box);
+  const latSpan = box.max_latitude - box.min_latitude;
+
+  return {
+    latitude: (box.min_latitude + box.max_latitude) / 2,
+    longitude: normalizeLongitude(box.min_longitude + lonSpan / 2),
+    latitude_span: Math.min(180, Math.max(minSpan, latSpan * (1 + 2 * padding))),
+    longitude_span: Math.min(360, Math.max(minSpan, lonSpan * (1 + 2 * padding)))
+  };
+}
+
+/**
+ * Span around a fixed center that shows all points, with padding as in fitViewport.
+ */
+export function spanAround(center: LatLng, points: LatLng[], padding: number, minSpan: number): Viewport {
+  let latExtent = 0;
+  let lonExtent = 0;
+  for (const point of points) {
+    latExtent = Math.max(latExtent, Math.abs(point.latitude - center.latitude));
+    lonExtent = Math.max(lonExtent, Math.abs(normalizeLongitude(point.longitude - center.longitude)));
+  }
+
+  return {
+    latitude: center.latitude,
+    longitude: center.longitude,
+    latitude_span: Math.min(180, Math.max(minSpan, 2 * latExtent * (1 + 2 * padding))),
+    longitude_span: Math.min(360, Math.max(minSpan, 2 * lonExtent * (1 + 2 * padding)))
+  };
+}
+
+/** Mean Earth radius in meters, as used for great-circle calculations. */
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+/** Great-circle distance in meters (haversine formula). */
+export function distance(from: LatLng, to: LatLng): number {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLat = lat2 - lat1;
+  const dLon = toRadians(to.longitude - from.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Initial bearing from `from` towards `to` in degrees clockwise from north, 0–360. */
+export function initialBearing(from: LatLng, to: LatLng): number {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+/** Eight-point compass direction of a bearing, e.g. 100 -> "E". */
+export function compassDirection(bearing: number): string {
+  return COMPASS_POINTS[Math.round(bearing / 45) % COMPASS_POINTS.length];
+}
+
+/** Point halfway along the great circle between two points. */
+export function midpoint(from: LatLng, to: LatLng): LatLng {
+  const lat1 = toRadians(from.latitude);
+  const lon1 = toRadians(from.longitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const bx = Math.cos(lat2) * Math.cos(dLon);
+  const by = Math.cos(lat2) * Math.sin(dLon);
+  const latitude = Math.atan2(Math.sin(lat1) + Math.sin(lat2), Math.hypot(Math.cos(lat1) + bx, by));
+  const longitude = lon1 + Math.atan2(by, Math.cos(lat1) + bx);
+  return { latitude: toDegrees(latitude), longitude: normalizeLongitude(toDegrees(longitude)) };
+}
+
+/** Point reached by travelling `meters` along the great circle starting at `bearing`. */
+export function destinationPoint(origin: LatLng, bearing: number, meters: number): LatLng {
+  const lat1 = toRadians(origin.latitude);
+  const lon1 = toRadians(origin.longitude);
+  const angle = meters / EARTH_RADIUS_METERS;
+  const theta = toRadians(bearing);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(theta));
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angle) * Math.cos(lat1),
+    Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return { latitude: toDegrees(lat2), longitude: normalizeLongitude(toDegrees(lon2)) };
+}
+
+/**
+ * Polygon approximating a circle of `meters` around the center, with `segments`
+ * vertices in clockwise order starting due north.
+ */
+export function bufferPoint(center: LatLng, meters: number, segments: number): LatLng[] {
+  return Array.from({ length: segments }, (_, index) => destinationPoint(center, index * 360 / segments, meters));
+}
+
+/**
+ * Ray casting test in plain degrees. Polygon longitudes are unwrapped relative to
+ * the first vertex, so polygons crossing the antimeridian work as well. Points on
+ * the boundary may land on either side.
+ */
+export function pointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  const reference = polygon[0].longitude;
+  const unwrap = (longitude: number) => reference + normalizeLongitude(longitude - reference);
+  const x = unwrap(point.longitude);
+  const y = point.latitude;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = unwrap(polygon[i].longitude);
+    const yi = polygon[i].latitude;
+    const xj = unwrap(polygon[j].longitude);
+    const yj = polygon[j].latitude;
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
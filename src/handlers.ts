@@ -1,177 +1,676 @@
-import fetch from "node-fetch";
 import { URL } from "node:url";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { GeocodeResponse } from "./types.js";
-import { YANDEX_MAPS_API_KEY, YANDEX_MAPS_STATIC_API_KEY, YANDEX_MAPS_GEOCODER_BASE_URL, YANDEX_MAPS_STATIC_BASE_URL } from "./config.js";
+import { CallToolResult, ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  AddressComponents,
+  DistanceMatrixMethod,
+  GeocodeOutputFormat,
+  GeocodeErrorResponse,
+  GeocodeResponse,
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeoObject,
+  GeoObjectCollection,
+  GeometryInput,
+  GeometryOperation,
+  MapPlacemark,
+  MapPolygon,
+  MapShape,
+  MapViewOptions,
+  PlacesFeature,
+  PlacesErrorResponse,
+  PlacesResponse,
+  ReverseGeocodeKind,
+  SuggestResponse,
+  SuggestResult,
+  SuggestType,
+  RouteMode,
+  RouterLeg,
+  RouterMatrixResponse,
+  RouterResponse,
+  RouterStep,
+  SearchArea
+} from "./types.js";
+import {
+  LatLng,
+  Viewport,
+  boundingBox,
+  bufferPoint,
+  compassDirection,
+  distance,
+  fitViewport,
+  initialBearing,
+  midpoint,
+  pointInPolygon,
+  simplifyPath,
+  spanAround
+} from "./geometry.js";
+import {
+  getApiKey,
+  hasApiKey,
+  YANDEX_MAPS_GEOCODER_BASE_URL,
+  YANDEX_MAPS_STATIC_BASE_URL,
+  YANDEX_MAPS_ROUTER_BASE_URL,
+  YANDEX_MAPS_PLACES_BASE_URL,
+  YANDEX_MAPS_SUGGEST_BASE_URL,
+  SUGGEST_TYPES,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ITEMS,
+  MAX_STATIC_URL_LENGTH,
+  DEFAULT_SHAPE_COLOR,
+  MAP_LAYERS,
+  MAX_MAP_WIDTH,
+  MAX_MAP_HEIGHT,
+  DEFAULT_VIEWPORT_PADDING,
+  MIN_VIEWPORT_SPAN,
+  MAX_DISTANCE_MATRIX_CELLS,
+  DEFAULT_BUFFER_SEGMENTS,
+  MATRIX_CHUNK_CELLS
+} from "./config.js";
+import { requestYandex } from "./yandex-client.js";
+import { resourceLinks, storeMap, storePlace } from "./resources.js";
+import { getUsageReport } from "./usage.js";
+import { ResponseCache, cacheKeyFromUrl, geocodeCache, reverseGeocodeCache, renderCache, placesCache } from "./cache.js";
 
-export async function handleGeocode(
-  country: string, 
-  lang: string, 
-  state?: string, 
-  city?: string, 
-  district?: string, 
-  street?: string, 
-  house_number?: string
-): Promise<CallToolResult> {
-  const addressParts = [
-    house_number,
-    street,
-    district,
-    city,
-    state,
-    country
-  ].filter(part => part !== undefined && part !== '');
-  
-  const address = addressParts.join(', ');
+function appendSearchArea(url: URL, area?: SearchArea, strictParam = "rspn"): void {
+  if (!area) {
+    return;
+  }
+
+  if (area.bbox) {
+    const { min_latitude, min_longitude, max_latitude, max_longitude } = area.bbox;
+    url.searchParams.append("bbox", `${min_longitude},${min_latitude}~${max_longitude},${max_latitude}`);
+  } else if (area.area_latitude !== undefined && area.area_longitude !== undefined) {
+    url.searchParams.append("ll", `${area.area_longitude},${area.area_latitude}`);
+    if (area.area_latitude_span !== undefined && area.area_longitude_span !== undefined) {
+      url.searchParams.append("spn", `${area.area_longitude_span},${area.area_latitude_span}`);
+    }
+  } else {
+    return;
+  }
+
+  if (area.strict_area) {
+    url.searchParams.append(strictParam, "1");
+  }
+}
 
+function buildGeocoderUrl(geocode: string | undefined, lang: string, results: number): URL {
   const url = new URL(YANDEX_MAPS_GEOCODER_BASE_URL);
-  url.searchParams.append("geocode", address);
+  if (geocode !== undefined) {
+    url.searchParams.append("geocode", geocode);
+  }
   url.searchParams.append("format", "json");
-  url.searchParams.append("results", "1");
+  url.searchParams.append("results", String(results));
   url.searchParams.append("lang", lang);
-  url.searchParams.append("apikey", YANDEX_MAPS_API_KEY);
+  url.searchParams.append("apikey", getApiKey("YANDEX_MAPS_API_KEY"));
+  return url;
+}
 
-  const response = await fetch(url.toString());
-  const data = await response.json() as GeocodeResponse;
+async function fetchGeoObjects(url: URL, cache: ResponseCache<GeoObjectCollection>): Promise<GeoObjectCollection> {
+  const cacheKey = cacheKeyFromUrl(url);
+  const cached = await cache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await requestYandex(url);
+  const data = await response.json() as GeocodeResponse | GeocodeErrorResponse;
 
   if ('error' in data) {
-    return {
-      content: [{
-        type: "text",
-        text: `Geocoding failed: ${(data as any).message || 'Unknown error'}`
-      }],
-      isError: true
-    };
+    throw new Error(data.message || 'Unknown error');
   }
 
   if (!data.response || data.response.GeoObjectCollection.featureMember.length === 0) {
-    return {
-      content: [{
-        type: "text",
-        text: `Geocoding failed: No results found`
-      }],
-      isError: true
-    };
+    throw new Error('No results found');
   }
 
-  const geoObject = data.response.GeoObjectCollection.featureMember[0].GeoObject;
-  const point = geoObject.Point?.pos.split(' ').map(Number);
-  
+  await cache.set(cacheKey, data.response.GeoObjectCollection);
+  return data.response.GeoObjectCollection;
+}
+
+function parsePos(pos: string): { lng: number, lat: number } {
+  const [lng, lat] = pos.split(' ').map(Number);
+  return { lng, lat };
+}
+
+function formatGeoObject(geoObject: GeoObject) {
+  return {
+    location: geoObject.Point ? parsePos(geoObject.Point.pos) : null,
+    formatted_address: geoObject.metaDataProperty.GeocoderMetaData.text,
+    address_components: geoObject.metaDataProperty.GeocoderMetaData.Address.Components
+  };
+}
+
+/**
+ * JSON result followed by the URIs of the places, which are stored so clients can
+ * read them again.
+ */
+function placesResult(data: unknown, places: Array<{ formatted_address: string }>): CallToolResult {
   return {
     content: [{
       type: "text",
-      text: JSON.stringify({
-        location: point ? { lng: point[0], lat: point[1] } : null,
-        formatted_address: geoObject.metaDataProperty.GeocoderMetaData.text,
-        address_components: geoObject.metaDataProperty.GeocoderMetaData.Address.Components
-      }, null, 2)
-    }],
+      text: JSON.stringify(data, null, 2)
+    }, resourceLinks(places.map(place => storePlace(place, place.formatted_address)))],
     isError: false
   };
 }
 
-export async function handleReverseGeocode(
-  latitude: number, 
-  longitude: number, 
-  lang: string
-): Promise<CallToolResult> {
-  const url = new URL(YANDEX_MAPS_GEOCODER_BASE_URL);
-  url.searchParams.append("geocode", `${longitude},${latitude}`);
-  url.searchParams.append("format", "json");
-  url.searchParams.append("results", "1");
-  url.searchParams.append("lang", lang);
-  url.searchParams.append("apikey", YANDEX_MAPS_API_KEY);
+/** Address metadata of a geocoder result, as carried in GeoJSON properties. */
+function geoObjectProperties(geoObject: GeoObject) {
+  const metaData = geoObject.metaDataProperty.GeocoderMetaData;
+  return {
+    name: geoObject.name,
+    description: geoObject.description,
+    formatted_address: metaData.Address?.formatted ?? metaData.text,
+    kind: metaData.kind,
+    precision: metaData.precision,
+    country_code: metaData.Address?.country_code,
+    address_components: metaData.Address?.Components
+  };
+}
 
-  const response = await fetch(url.toString());
-  const data = await response.json() as GeocodeResponse;
+function toFeature(geoObject: GeoObject | undefined, properties: Record<string, unknown> = {}): GeoJsonFeature {
+  if (!geoObject) {
+    return { type: "Feature", geometry: null, properties };
+  }
 
-  if ('error' in data) {
-    return {
-      content: [{
-        type: "text",
-        text: `Reverse geocoding failed: ${(data as any).message || 'Unknown error'}`
-      }],
-      isError: true
-    };
+  const point = geoObject.Point ? parsePos(geoObject.Point.pos) : null;
+  const envelope = geoObject.boundedBy?.Envelope;
+  const lower = envelope && parsePos(envelope.lowerCorner);
+  const upper = envelope && parsePos(envelope.upperCorner);
+  return {
+    type: "Feature",
+    geometry: point ? { type: "Point", coordinates: [point.lng, point.lat] } : null,
+    ...(lower && upper ? { bbox: [lower.lng, lower.lat, upper.lng, upper.lat] } : {}),
+    properties: { ...properties, ...geoObjectProperties(geoObject) }
+  };
+}
+
+function toWkt(geoObject: GeoObject | undefined): string {
+  if (!geoObject?.Point) {
+    return "POINT EMPTY";
   }
+  const { lng, lat } = parsePos(geoObject.Point.pos);
+  return `POINT (${lng} ${lat})`;
+}
 
-  if (!data.response || data.response.GeoObjectCollection.featureMember.length === 0) {
-    return {
-      content: [{
-        type: "text",
-        text: `Reverse geocoding failed: No results found`
-      }],
-      isError: true
+/**
+ * Formats geocoder results as GeoJSON or WKT; `members` are added to the top level
+ * of a FeatureCollection. Missing results keep their place as a feature without
+ * geometry or as POINT EMPTY, so output stays aligned with the input.
+ */
+function standardResult(
+  format: Exclude<GeocodeOutputFormat, "json">,
+  results: Array<{ geoObject?: GeoObject, properties?: Record<string, unknown> }>,
+  members: Record<string, unknown> = {}
+): CallToolResult {
+  let text: string;
+  if (format === "wkt") {
+    text = results.map(({ geoObject }) => toWkt(geoObject)).join("\n");
+  } else {
+    const collection: GeoJsonFeatureCollection = {
+      type: "FeatureCollection",
+      ...members,
+      features: results.map(({ geoObject, properties }) => toFeature(geoObject, properties))
     };
+    text = JSON.stringify(collection, null, 2);
   }
 
-  const geoObject = data.response.GeoObjectCollection.featureMember[0].GeoObject;
-  const point = geoObject.Point?.pos.split(' ').map(Number);
-  
   return {
     content: [{
       type: "text",
-      text: JSON.stringify({
-        location: point ? { lng: point[0], lat: point[1] } : null,
-        formatted_address: geoObject.metaDataProperty.GeocoderMetaData.text,
-        address_components: geoObject.metaDataProperty.GeocoderMetaData.Address.Components
-      }, null, 2)
+      text
     }],
     isError: false
   };
 }
 
+function formatAddress(address: AddressComponents): string {
+  return [
+    address.house_number,
+    address.street,
+    address.district,
+    address.city,
+    address.state,
+    address.country
+  ].filter(part => part !== undefined && part !== '').join(', ');
+}
+
+function errorResult(prefix: string, error: unknown): CallToolResult {
+  return {
+    content: [{
+      type: "text",
+      text: `${prefix}: ${error instanceof Error ? error.message : String(error)}`
+    }],
+    isError: true
+  };
+}
+
+export async function handleGeocode(
+  country: string, 
+  lang: string, 
+  state?: string, 
+  city?: string, 
+  district?: string, 
+  street?: string, 
+  house_number?: string,
+  area?: SearchArea,
+  output_format: GeocodeOutputFormat = "json"
+): Promise<CallToolResult> {
+  const address = formatAddress({ country, state, city, district, street, house_number });
+
+  const url = buildGeocoderUrl(address, lang, 1);
+  appendSearchArea(url, area);
+
+  let collection: GeoObjectCollection;
+  try {
+    collection = await fetchGeoObjects(url, geocodeCache);
+  } catch (error) {
+    return errorResult("Geocoding failed", error);
+  }
+
+  if (output_format !== "json") {
+    return standardResult(output_format, [{ geoObject: collection.featureMember[0].GeoObject }]);
+  }
+
+  const place = formatGeoObject(collection.featureMember[0].GeoObject);
+  return placesResult(place, [place]);
+}
+
+export async function handleGeocodeQuery(
+  query: string | undefined,
+  lang: string,
+  results?: number,
+  skip?: number,
+  uri?: string,
+  output_format: GeocodeOutputFormat = "json"
+): Promise<CallToolResult> {
+  if (query === undefined && uri === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, "Either query or uri must be provided");
+  }
+
+  // A uri from maps_suggest identifies the object exactly and replaces the query
+  const url = buildGeocoderUrl(uri === undefined ? query : undefined, lang, results ?? 10);
+  if (uri !== undefined) {
+    url.searchParams.append("uri", uri);
+  }
+  if (skip) {
+    url.searchParams.append("skip", String(skip));
+  }
+
+  let collection: GeoObjectCollection;
+  try {
+    collection = await fetchGeoObjects(url, geocodeCache);
+  } catch (error) {
+    return errorResult("Geocoding failed", error);
+  }
+
+  const found = Number(collection.metaDataProperty.GeocoderResponseMetaData.found);
+  if (output_format !== "json") {
+    const results = collection.featureMember.map(({ GeoObject: geoObject }) => ({ geoObject }));
+    return standardResult(output_format, results, { found, skip: skip ?? 0 });
+  }
+
+  const candidates = collection.featureMember.map(({ GeoObject: geoObject }) => {
+    const metaData = geoObject.metaDataProperty.GeocoderMetaData;
+    const envelope = geoObject.boundedBy?.Envelope;
+    const formatted_address = metaData.Address?.formatted ?? metaData.text;
+    return {
+      kind: metaData.kind,
+      precision: metaData.precision,
+      formatted_address,
+      location: geoObject.Point ? parsePos(geoObject.Point.pos) : null,
+      bounded_by: envelope ? {
+        lower_corner: parsePos(envelope.lowerCorner),
+        upper_corner: parsePos(envelope.upperCorner)
+      } : null,
+      address_components: metaData.Address?.Components
+    };
+  });
+
+  return placesResult({ found, skip: skip ?? 0, candidates }, candidates);
+}
+
+export async function handleReverseGeocode(
+  latitude: number, 
+  longitude: number, 
+  lang: string,
+  kind?: ReverseGeocodeKind,
+  results?: number,
+  area?: SearchArea,
+  output_format: GeocodeOutputFormat = "json"
+): Promise<CallToolResult> {
+  const url = buildGeocoderUrl(`${longitude},${latitude}`, lang, results ?? 1);
+  if (kind) {
+    url.searchParams.append("kind", kind);
+  }
+  appendSearchArea(url, area);
+
+  let collection: GeoObjectCollection;
+  try {
+    collection = await fetchGeoObjects(url, reverseGeocodeCache);
+  } catch (error) {
+    return errorResult("Reverse geocoding failed", error);
+  }
+
+  if (output_format !== "json") {
+    return standardResult(output_format, collection.featureMember.map(({ GeoObject: geoObject }) => ({ geoObject })));
+  }
+
+  const objects = collection.featureMember.map(({ GeoObject: geoObject }) => ({
+    ...formatGeoObject(geoObject),
+    kind: geoObject.metaDataProperty.GeocoderMetaData.kind
+  }));
+
+  return placesResult(results && results > 1 ? { results: objects } : objects[0], objects);
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  mapper: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await mapper(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+interface BatchGeocodeResult {
+  input: unknown;
+  geoObject?: GeoObject;
+  error?: string;
+}
+
+export async function handleGeocodeBatch(
+  lang: string,
+  addresses?: Array<string | AddressComponents>,
+  coordinates?: Array<{ latitude: number, longitude: number }>,
+  concurrency?: number,
+  area?: SearchArea,
+  output_format: GeocodeOutputFormat = "json"
+): Promise<CallToolResult> {
+  if ((addresses?.length ?? 0) > MAX_BATCH_ITEMS || (coordinates?.length ?? 0) > MAX_BATCH_ITEMS) {
+    return errorResult("Batch geocoding failed", `At most ${MAX_BATCH_ITEMS} addresses and ${MAX_BATCH_ITEMS} coordinates are allowed per call`);
+  }
+
+  const limit = Math.max(1, Math.min(concurrency ?? DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY));
+
+  const addressResults = await mapWithConcurrency(addresses ?? [], limit, async (address): Promise<BatchGeocodeResult> => {
+    try {
+      const url = buildGeocoderUrl(typeof address === 'string' ? address : formatAddress(address), lang, 1);
+      appendSearchArea(url, area);
+      const collection = await fetchGeoObjects(url, geocodeCache);
+      return { input: address, geoObject: collection.featureMember[0].GeoObject };
+    } catch (error) {
+      return { input: address, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  const coordinateResults = await mapWithConcurrency(coordinates ?? [], limit, async (point): Promise<BatchGeocodeResult> => {
+    try {
+      const url = buildGeocoderUrl(`${point.longitude},${point.latitude}`, lang, 1);
+      const collection = await fetchGeoObjects(url, reverseGeocodeCache);
+      return { input: point, geoObject: collection.featureMember[0].GeoObject };
+    } catch (error) {
+      return { input: point, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  const failed = [...addressResults, ...coordinateResults].filter(result => result.error !== undefined).length;
+
+  if (output_format !== "json") {
+    // Features follow the input order: addresses first, then coordinates
+    const toStandard = (type: "address" | "coordinates") => ({ input, geoObject, error }: BatchGeocodeResult) => ({
+      geoObject,
+      properties: { input_type: type, input, status: error === undefined ? "ok" : "error", error }
+    });
+    return standardResult(output_format, [
+      ...addressResults.map(toStandard("address")),
+      ...coordinateResults.map(toStandard("coordinates"))
+    ], { total: addressResults.length + coordinateResults.length, failed });
+  }
+
+  const toJson = ({ input, geoObject, error }: BatchGeocodeResult) => geoObject
+    ? { input, status: "ok", ...formatGeoObject(geoObject) }
+    : { input, status: "error", error };
+  const found = [...addressResults, ...coordinateResults]
+    .flatMap(({ geoObject }) => geoObject ? [formatGeoObject(geoObject)] : []);
+
+  return placesResult({
+    total: addressResults.length + coordinateResults.length,
+    failed,
+    addresses: addressResults.map(toJson),
+    coordinates: coordinateResults.map(toJson)
+  }, found);
+}
+
+const roundTo = (value: number, digits: number) => Number(value.toFixed(digits));
+const roundPoint = (point: LatLng): LatLng => ({
+  latitude: roundTo(point.latitude, 6),
+  longitude: roundTo(point.longitude, 6)
+});
+
+function toStaticColor(color: string, opacity: number): string {
+  const alpha = Math.round(Math.max(0, Math.min(1, opacity)) * 255).toString(16).padStart(2, '0');
+  return `${color.replace('#', '')}${alpha}`;
+}
+
+function encodeShape(shape: MapShape | MapPolygon, points: LatLng[], polygon: boolean): string {
+  const strokeColor = shape.stroke_color ?? DEFAULT_SHAPE_COLOR;
+  const style = [
+    `c:${toStaticColor(strokeColor, shape.opacity ?? 1)}`,
+    `w:${shape.stroke_width ?? 3}`
+  ];
+  if (polygon) {
+    const fillColor = (shape as MapPolygon).fill_color ?? strokeColor;
+    style.splice(1, 0, `f:${toStaticColor(fillColor, shape.opacity ?? 0.4)}`);
+  }
+
+  const contour = polygon ? [...points, points[0]] : points;
+  const coordinates = contour.map(point => `${Number(point.longitude.toFixed(6))},${Number(point.latitude.toFixed(6))}`);
+  return [...style, ...coordinates].join(',');
+}
+
+/**
+ * Encodes polylines and polygons into the Static API `pl` parameter. When the
+ * resulting URL is too long, all shapes are simplified with a doubling tolerance
+ * until it fits.
+ */
+function appendShapes(
+  url: URL,
+  polylines: MapShape[],
+  polygons: MapPolygon[],
+  initialTolerance: number
+): Record<string, unknown> | undefined {
+  const shapes = [
+    ...polylines.map(shape => ({ type: "polyline", shape, polygon: false })),
+    ...polygons.map(shape => ({ type: "polygon", shape, polygon: true }))
+  ];
+  if (shapes.length === 0) {
+    return undefined;
+  }
+
+  let tolerance = 0;
+  for (let attempt = 0; attempt < 30; attempt++) {
+    const simplified = shapes.map(({ shape }) => simplifyPath(shape.points, tolerance));
+    const param = shapes.map(({ shape, polygon }, index) => encodeShape(shape, simplified[index], polygon)).join('~');
+
+    const candidate = new URL(url.toString());
+    candidate.searchParams.append("pl", param);
+    if (candidate.toString().length <= MAX_STATIC_URL_LENGTH) {
+      url.searchParams.append("pl", param);
+      return {
+        simplified: tolerance > 0,
+        tolerance_degrees: tolerance,
+        shapes: shapes.map(({ type, shape }, index) => ({
+          type,
+          original_points: shape.points.length,
+          rendered_points: simplified[index].length
+        }))
+      };
+    }
+
+    tolerance = tolerance === 0 ? initialTolerance : tolerance * 2;
+  }
+
+  throw new Error("Shapes are too large to fit into a map request even after simplification");
+}
+
+function encodePlacemarkStyle(mark: MapPlacemark): string {
+  const style = mark.style ?? "pm2";
+  if (style !== "pm" && style !== "pm2") {
+    return style;
+  }
+
+  const size = mark.size ?? "m";
+  if (typeof mark.label === "string") {
+    return `${style}${mark.label}${size}`;
+  }
+  return `${style}${mark.color ?? "rd"}${size}${mark.label ?? ""}`;
+}
+
+/**
+ * Fills in whatever part of the viewport the caller left out from the placemarks
+ * and shapes: the center, the span, or both. A zoom level replaces the span.
+ */
+function resolveViewport(
+  latitude: number | undefined,
+  longitude: number | undefined,
+  latitude_span: number | undefined,
+  longitude_span: number | undefined,
+  zoom: number | undefined,
+  points: LatLng[],
+  padding: number
+): Partial<Viewport> & { latitude: number, longitude: number, zoom?: number } {
+  if ((latitude === undefined) !== (longitude === undefined)) {
+    throw new McpError(ErrorCode.InvalidParams, "latitude and longitude must be provided together");
+  }
+  if ((latitude_span === undefined) !== (longitude_span === undefined)) {
+    throw new McpError(ErrorCode.InvalidParams, "latitude_span and longitude_span must be provided together");
+  }
+
+  const hasCenter = latitude !== undefined && longitude !== undefined;
+  const hasScale = latitude_span !== undefined || zoom !== undefined;
+  if (!hasCenter || !hasScale) {
+    if (points.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Provide latitude, longitude and either spans or zoom, or placemarks or shapes to fit the map to"
+      );
+    }
+  }
+
+  // Fitted values are rounded so float noise stays out of the map URL and the result
+  const fitted = hasCenter
+    ? (hasScale ? undefined : spanAround({ latitude, longitude }, points, padding, MIN_VIEWPORT_SPAN))
+    : fitViewport(points, padding, MIN_VIEWPORT_SPAN);
+  const center = hasCenter ? { latitude, longitude } : roundPoint(fitted!);
+
+  if (zoom !== undefined) {
+    return { ...center, zoom };
+  }
+  if (latitude_span !== undefined && longitude_span !== undefined) {
+    return { ...center, latitude_span, longitude_span };
+  }
+  return { ...center, latitude_span: roundTo(fitted!.latitude_span, 6), longitude_span: roundTo(fitted!.longitude_span, 6) };
+}
+
 export async function handleRenderMap(
-  latitude: number,
-  longitude: number,
-  latitude_span: number,
-  longitude_span: number,
+  latitude: number | undefined,
+  longitude: number | undefined,
+  latitude_span: number | undefined,
+  longitude_span: number | undefined,
   lang: string,
-  placemarks?: Array<{ latitude: number, longitude: number }>
+  placemarks?: MapPlacemark[],
+  polylines?: MapShape[],
+  polygons?: MapPolygon[],
+  view: MapViewOptions = {}
 ): Promise<CallToolResult> {
-  const ll = `${longitude},${latitude}`;
-  const spn = `${longitude_span},${latitude_span}`;
+  const points: LatLng[] = [
+    ...(placemarks ?? []),
+    ...(polylines ?? []).flatMap(shape => shape.points),
+    ...(polygons ?? []).flatMap(shape => shape.points)
+  ];
+  const viewport = resolveViewport(
+    latitude,
+    longitude,
+    latitude_span,
+    longitude_span,
+    view.zoom,
+    points,
+    view.padding ?? DEFAULT_VIEWPORT_PADDING
+  );
 
   const url = new URL(YANDEX_MAPS_STATIC_BASE_URL);
-  url.searchParams.append("ll", ll);
-  url.searchParams.append("spn", spn);
-  url.searchParams.append("l", "map");
+  url.searchParams.append("ll", `${viewport.longitude},${viewport.latitude}`);
+  if (viewport.zoom !== undefined) {
+    url.searchParams.append("z", String(viewport.zoom));
+  } else {
+    url.searchParams.append("spn", `${viewport.longitude_span},${viewport.latitude_span}`);
+  }
+  url.searchParams.append("l", MAP_LAYERS[view.layer ?? "map"]);
+  if (view.theme) {
+    url.searchParams.append("theme", view.theme);
+  }
+  if (view.width !== undefined || view.height !== undefined) {
+    url.searchParams.append("size", `${view.width ?? MAX_MAP_WIDTH},${view.height ?? MAX_MAP_HEIGHT}`);
+  }
   url.searchParams.append("lang", lang);
-  url.searchParams.append("apikey", YANDEX_MAPS_STATIC_API_KEY);
+  url.searchParams.append("apikey", getApiKey("YANDEX_MAPS_STATIC_API_KEY"));
   
   if (placemarks && placemarks.length > 0) {
     const placemarksParam = placemarks
-      .map(mark => `${mark.longitude},${mark.latitude},pm2rdm`)
+      .map(mark => `${mark.longitude},${mark.latitude},${encodePlacemarkStyle(mark)}`)
       .join('~');
     
     url.searchParams.append("pt", placemarksParam);
   }
 
+  // With a zoom level instead of spans, simplify relative to the world span visible at that zoom
+  const viewSpan = viewport.zoom !== undefined
+    ? 360 / 2 ** viewport.zoom
+    : Math.max(viewport.latitude_span as number, viewport.longitude_span as number);
+
   try {
-    const response = await fetch(url.toString());
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      return {
-        content: [{
-          type: "text",
-          text: `Failed to fetch map image: ${response.status} ${response.statusText}\n${errorText}`
-        }],
-        isError: true
+    const simplification = appendShapes(
+      url,
+      polylines ?? [],
+      polygons ?? [],
+      viewSpan / 10000
+    );
+
+    const cacheKey = cacheKeyFromUrl(url);
+    let image = await renderCache.get(cacheKey);
+
+    if (!image) {
+      const response = await requestYandex(url);
+
+      const arrayBuffer = await response.arrayBuffer();
+      const imageBuffer = Buffer.from(arrayBuffer);
+      image = {
+        data: imageBuffer.toString('base64'),
+        mimeType: response.headers.get('content-type') || 'image/png'
       };
+      await renderCache.set(cacheKey, image);
     }
-    
-    const arrayBuffer = await response.arrayBuffer();
-    const imageBuffer = Buffer.from(arrayBuffer);
-    const base64Data = imageBuffer.toString('base64');
-    const contentType = response.headers.get('content-type') || 'image/png';
-    
     return {
       content: [{
         type: "image",
-        data: base64Data,
-        mimeType: contentType
-      }],
+        data: image.data,
+        mimeType: image.mimeType
+      }, {
+        type: "text",
+        text: JSON.stringify({ viewport, ...(simplification ? { shapes: simplification } : {}) }, null, 2)
+      }, resourceLinks([storeMap(cacheKey, image, `Map at ${viewport.latitude},${viewport.longitude}`)])],
       isError: false
     };
   } catch (error) {
@@ -183,4 +682,493 @@ export async function handleRenderMap(
       isError: true
     };
   }
-}
\ No newline at end of file
+}
+
+function requireGeometryInput<K extends keyof GeometryInput>(
+  input: GeometryInput,
+  name: K,
+  operation: GeometryOperation
+): NonNullable<GeometryInput[K]> {
+  const value = input[name];
+  if (value === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `Operation ${operation} requires ${name}`);
+  }
+  return value as NonNullable<GeometryInput[K]>;
+}
+
+function computeGeometry(operation: GeometryOperation, input: GeometryInput): unknown {
+  const get = <K extends keyof GeometryInput>(name: K) => requireGeometryInput(input, name, operation);
+
+  switch (operation) {
+    case "distance":
+      return { distance_meters: roundTo(distance(get("from"), get("to")), 1) };
+
+    case "distance_matrix": {
+      const origins = get("points");
+      const destinations = input.destinations ?? origins;
+      if (origins.length * destinations.length > MAX_DISTANCE_MATRIX_CELLS) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Distance matrix of ${origins.length}x${destinations.length} exceeds ${MAX_DISTANCE_MATRIX_CELLS} cells`
+        );
+      }
+      return {
+        origins: origins.length,
+        destinations: destinations.length,
+        distances_meters: origins.map(origin => destinations.map(destination => roundTo(distance(origin, destination), 1)))
+      };
+    }
+
+    case "bearing": {
+      const bearing = initialBearing(get("from"), get("to"));
+      return { bearing_degrees: roundTo(bearing, 2), direction: compassDirection(bearing) };
+    }
+
+    case "midpoint":
+      return { midpoint: roundPoint(midpoint(get("from"), get("to"))) };
+
+    case "bbox": {
+      const points = get("points");
+      const box = boundingBox(points);
+      const { latitude, longitude } = fitViewport(points, 0, 0);
+      return {
+        bbox: box,
+        center: roundPoint({ latitude, longitude }),
+        crosses_antimeridian: box.min_longitude > box.max_longitude
+      };
+    }
+
+    case "point_in_polygon": {
+      const polygon = get("polygon");
+      const points = get("points").map((point, index) => ({ ...point, index, inside: pointInPolygon(point, polygon) }));
+      return {
+        total: points.length,
+        inside: points.filter(point => point.inside).length,
+        points
+      };
+    }
+
+    case "buffer": {
+      const center = get("from");
+      const radius = get("radius_meters");
+      const polygon = bufferPoint(center, radius, input.segments ?? DEFAULT_BUFFER_SEGMENTS).map(roundPoint);
+      return {
+        center,
+        radius_meters: radius,
+        polygon: { points: polygon },
+        bbox: Object.fromEntries(Object.entries(boundingBox(polygon)).map(([name, value]) => [name, roundTo(value, 6)]))
+      };
+    }
+
+    case "nearest": {
+      const origin = get("from");
+      const ranked = get("points")
+        .map((point, index) => ({ ...point, index, distance_meters: roundTo(distance(origin, point), 1) }))
+        .sort((a, b) => a.distance_meters - b.distance_meters);
+      return { points: ranked.slice(0, input.limit ?? ranked.length) };
+    }
+  }
+}
+
+export async function handleGeometry(operation: GeometryOperation, input: GeometryInput): Promise<CallToolResult> {
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(computeGeometry(operation, input), null, 2)
+    }],
+    isError: false
+  };
+}
+
+/** Bearing of the first or last segment of a path that has non-zero length. */
+function edgeBearing(points: LatLng[], end: "start" | "finish"): number | undefined {
+  const ordered = end === "start" ? points : [...points].reverse();
+  const anchor = ordered[0];
+  const next = ordered.find(point => point.latitude !== anchor?.latitude || point.longitude !== anchor?.longitude);
+  if (!anchor || !next) {
+    return undefined;
+  }
+  return end === "start" ? initialBearing(anchor, next) : initialBearing(next, anchor);
+}
+
+function describeTurn(incoming: number | undefined, outgoing: number | undefined): string {
+  if (incoming === undefined || outgoing === undefined) {
+    return "continue";
+  }
+  const angle = ((outgoing - incoming + 540) % 360) - 180;
+  const side = angle < 0 ? "left" : "right";
+  const magnitude = Math.abs(angle);
+  if (magnitude < 20) {
+    return "continue";
+  }
+  if (magnitude < 60) {
+    return `slight_${side}`;
+  }
+  if (magnitude < 135) {
+    return `turn_${side}`;
+  }
+  return magnitude < 170 ? `sharp_${side}` : "u_turn";
+}
+
+/** Sum of step durations in traffic, or null when the router did not report them. */
+function trafficDuration(steps: RouterStep[]): number | null {
+  if (steps.length === 0 || steps.some(step => step.duration_in_traffic === undefined)) {
+    return null;
+  }
+  return roundTo(steps.reduce((total, step) => total + (step.duration_in_traffic as number), 0), 0);
+}
+
+function summarizeRoute(legs: RouterLeg[], mode: RouteMode, destination: LatLng) {
+  const geometry: LatLng[] = [];
+  const maneuvers: Array<Record<string, unknown>> = [];
+  let previousPoints: LatLng[] | undefined;
+
+  legs.forEach(leg => leg.steps.forEach((step, stepIndex) => {
+    const points = step.polyline.points.map(([latitude, longitude]) => ({ latitude, longitude }));
+    const action = !previousPoints
+      ? "depart"
+      : stepIndex === 0 ? "waypoint" : describeTurn(edgeBearing(previousPoints, "finish"), edgeBearing(points, "start"));
+
+    maneuvers.push({
+      action,
+      mode: step.mode ?? mode,
+      distance_meters: roundTo(step.length, 1),
+      duration_seconds: roundTo(step.duration, 0),
+      location: points[0] ?? geometry[geometry.length - 1]
+    });
+
+    for (const point of points) {
+      const last = geometry[geometry.length - 1];
+      if (!last || last.latitude !== point.latitude || last.longitude !== point.longitude) {
+        geometry.push(point);
+      }
+    }
+    if (points.length > 0) {
+      previousPoints = points;
+    }
+  }));
+
+  maneuvers.push({
+    action: "arrive",
+    mode,
+    distance_meters: 0,
+    duration_seconds: 0,
+    location: geometry[geometry.length - 1] ?? destination
+  });
+
+  const allSteps = legs.flatMap(leg => leg.steps);
+  const sumOf = (steps: RouterStep[], pick: (step: RouterStep) => number) =>
+    steps.reduce((total, step) => total + pick(step), 0);
+
+  return {
+    mode,
+    distance_meters: roundTo(sumOf(allSteps, step => step.length), 1),
+    duration_seconds: roundTo(sumOf(allSteps, step => step.duration), 0),
+    duration_in_traffic_seconds: trafficDuration(allSteps),
+    legs: legs.map(leg => ({
+      distance_meters: roundTo(sumOf(leg.steps, step => step.length), 1),
+      duration_seconds: roundTo(sumOf(leg.steps, step => step.duration), 0),
+      duration_in_traffic_seconds: trafficDuration(leg.steps)
+    })),
+    maneuvers,
+    geometry: { points: geometry }
+  };
+}
+
+export async function handleRoute(
+  origin: LatLng,
+  destination: LatLng,
+  waypoints?: LatLng[],
+  mode?: RouteMode,
+  departure_time?: string
+): Promise<CallToolResult> {
+  const url = new URL(`${YANDEX_MAPS_ROUTER_BASE_URL.replace(/\/+$/, '')}/route`);
+  const stops = [origin, ...(waypoints ?? []), destination];
+  url.searchParams.append("waypoints", stops.map(stop => `${stop.latitude},${stop.longitude}`).join('|'));
+  url.searchParams.append("mode", mode ?? "driving");
+  if (departure_time !== undefined) {
+    const timestamp = Date.parse(departure_time);
+    if (Number.isNaN(timestamp)) {
+      throw new McpError(ErrorCode.InvalidParams, `departure_time must be an ISO 8601 date, got ${departure_time}`);
+    }
+    url.searchParams.append("departure_time", String(Math.floor(timestamp / 1000)));
+  }
+  url.searchParams.append("apikey", getApiKey("YANDEX_MAPS_ROUTER_API_KEY"));
+
+  let legs: RouterLeg[];
+  try {
+    const response = await requestYandex(url);
+    const data = await response.json() as RouterResponse;
+    if (!data.route || data.route.legs.length === 0) {
+      throw new Error(data.errors?.join('; ') || 'No route found');
+    }
+    const failedLeg = data.route.legs.findIndex(leg => leg.status !== "OK");
+    if (failedLeg !== -1) {
+      throw new Error(`No route found between points ${failedLeg} and ${failedLeg + 1} (${data.route.legs[failedLeg].status})`);
+    }
+    legs = data.route.legs;
+  } catch (error) {
+    return errorResult("Routing failed", error);
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(summarizeRoute(legs, mode ?? "driving", destination), null, 2)
+    }],
+    isError: false
+  };
+}
+
+interface MatrixCell {
+  status: "ok" | "no_route" | "error";
+  distance_meters?: number;
+  duration_seconds?: number | null;
+  error?: string;
+}
+
+interface MatrixChunk {
+  originStart: number;
+  origins: LatLng[];
+  destinationStart: number;
+  destinations: LatLng[];
+}
+
+/**
+ * Splits the matrix into blocks of at most MATRIX_CHUNK_CELLS pairs, keeping whole
+ * destination rows together where possible.
+ */
+function chunkMatrix(origins: LatLng[], destinations: LatLng[]): MatrixChunk[] {
+  const destinationSize = Math.min(destinations.length, MATRIX_CHUNK_CELLS);
+  const originSize = Math.max(1, Math.floor(MATRIX_CHUNK_CELLS / destinationSize));
+  const chunks: MatrixChunk[] = [];
+  for (let originStart = 0; originStart < origins.length; originStart += originSize) {
+    for (let destinationStart = 0; destinationStart < destinations.length; destinationStart += destinationSize) {
+      chunks.push({
+        originStart,
+        origins: origins.slice(originStart, originStart + originSize),
+        destinationStart,
+        destinations: destinations.slice(destinationStart, destinationStart + destinationSize)
+      });
+    }
+  }
+  return chunks;
+}
+
+async function fetchMatrixChunk(chunk: MatrixChunk, mode: RouteMode): Promise<MatrixCell[][]> {
+  const formatPoints = (points: LatLng[]) => points.map(point => `${point.latitude},${point.longitude}`).join('|');
+  const url = new URL(`${YANDEX_MAPS_ROUTER_BASE_URL.replace(/\/+$/, '')}/distancematrix`);
+  url.searchParams.append("origins", formatPoints(chunk.origins));
+  url.searchParams.append("destinations", formatPoints(chunk.destinations));
+  url.searchParams.append("mode", mode);
+  url.searchParams.append("apikey", getApiKey("YANDEX_MAPS_ROUTER_API_KEY"));
+
+  const response = await requestYandex(url);
+  const data = await response.json() as RouterMatrixResponse;
+  if (!data.rows || data.rows.length !== chunk.origins.length) {
+    throw new Error(data.errors?.join('; ') || 'Unexpected distance matrix response');
+  }
+
+  return data.rows.map(row => chunk.destinations.map((_, index): MatrixCell => {
+    const element = row.elements[index];
+    if (!element || element.status !== "OK" || !element.distance || !element.duration) {
+      return { status: "no_route" };
+    }
+    return {
+      status: "ok",
+      distance_meters: roundTo(element.distance.value, 1),
+      duration_seconds: roundTo(element.duration.value, 0)
+    };
+  }));
+}
+
+export async function handleDistanceMatrix(
+  origins: LatLng[],
+  destinations: LatLng[],
+  mode?: RouteMode,
+  method?: DistanceMatrixMethod,
+  concurrency?: number
+): Promise<CallToolResult> {
+  const resolvedMode = mode ?? "driving";
+  const resolvedMethod = method ?? (hasApiKey("YANDEX_MAPS_ROUTER_API_KEY") ? "router" : "straight_line");
+  let rows: MatrixCell[][];
+  let chunkCount = 0;
+
+  if (resolvedMethod === "straight_line") {
+    rows = origins.map(origin => destinations.map((destination): MatrixCell => ({
+      status: "ok",
+      distance_meters: roundTo(distance(origin, destination), 1),
+      duration_seconds: null
+    })));
+  } else {
+    getApiKey("YANDEX_MAPS_ROUTER_API_KEY");
+    const chunks = chunkMatrix(origins, destinations);
+    const limit = Math.max(1, Math.min(concurrency ?? DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY));
+    chunkCount = chunks.length;
+    rows = origins.map(() => new Array<MatrixCell>(destinations.length));
+
+    await mapWithConcurrency(chunks, limit, async (chunk) => {
+      let cells: MatrixCell[][];
+      try {
+        cells = await fetchMatrixChunk(chunk, resolvedMode);
+      } catch (error) {
+        const failure: MatrixCell = { status: "error", error: error instanceof Error ? error.message : String(error) };
+        cells = chunk.origins.map(() => chunk.destinations.map(() => failure));
+      }
+      cells.forEach((row, originOffset) => row.forEach((cell, destinationOffset) => {
+        rows[chunk.originStart + originOffset][chunk.destinationStart + destinationOffset] = cell;
+      }));
+    });
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        method: resolvedMethod,
+        mode: resolvedMethod === "router" ? resolvedMode : null,
+        origins: origins.length,
+        destinations: destinations.length,
+        ...(resolvedMethod === "router" ? { requests: chunkCount } : {}),
+        failed: rows.flat().filter(cell => cell.status !== "ok").length,
+        rows
+      }, null, 2)
+    }],
+    isError: false
+  };
+}
+
+function formatPlace(feature: PlacesFeature) {
+  const company = feature.properties.CompanyMetaData;
+  const [longitude, latitude] = feature.geometry.coordinates;
+  const name = company?.name ?? feature.properties.name;
+  return {
+    id: company?.id ?? null,
+    name,
+    address: company?.address ?? feature.properties.description ?? null,
+    location: { latitude, longitude },
+    categories: company?.Categories?.map(category => category.name) ?? [],
+    phones: company?.Phones?.map(phone => phone.formatted) ?? [],
+    url: company?.url ?? null,
+    hours: company?.Hours?.text ?? null
+  };
+}
+
+export async function handleSearchPlaces(
+  lang: string,
+  text?: string,
+  category?: string,
+  results?: number,
+  area?: SearchArea
+): Promise<CallToolResult> {
+  const query = [category, text].filter(part => part !== undefined && part.trim() !== '').join(' ');
+  if (query === '') {
+    throw new McpError(ErrorCode.InvalidParams, "Either text or category must be provided");
+  }
+
+  const url = new URL(YANDEX_MAPS_PLACES_BASE_URL);
+  url.searchParams.append("text", query);
+  url.searchParams.append("type", "biz");
+  url.searchParams.append("results", String(results ?? 10));
+  url.searchParams.append("lang", lang);
+  url.searchParams.append("apikey", getApiKey("YANDEX_MAPS_PLACES_API_KEY"));
+  appendSearchArea(url, area);
+
+  let data: PlacesResponse;
+  try {
+    const cacheKey = cacheKeyFromUrl(url);
+    const cached = await placesCache.get(cacheKey);
+    if (cached) {
+      data = cached;
+    } else {
+      const response = await requestYandex(url);
+      const body = await response.json() as PlacesResponse | PlacesErrorResponse;
+      if (!('features' in body) || !Array.isArray(body.features)) {
+        throw new Error(('message' in body && body.message) || 'Unexpected search response');
+      }
+      data = body;
+      await placesCache.set(cacheKey, data);
+    }
+  } catch (error) {
+    return errorResult("Place search failed", error);
+  }
+
+  const places = data.features.map(formatPlace);
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        found: data.properties?.ResponseMetaData?.SearchResponse?.found ?? data.features.length,
+        places
+      }, null, 2)
+    }, resourceLinks(places.map(place => storePlace(
+      place,
+      place.name,
+      place.id ?? `${place.name} ${place.location.longitude},${place.location.latitude}`
+    )))],
+    isError: false
+  };
+}
+
+function formatSuggestion(result: SuggestResult) {
+  return {
+    title: result.title.text,
+    subtitle: result.subtitle?.text ?? null,
+    highlights: {
+      title: result.title.hl ?? [],
+      subtitle: result.subtitle?.hl ?? []
+    },
+    tags: result.tags ?? [],
+    address: result.address?.formatted_address ?? null,
+    distance_meters: result.distance?.value ?? null,
+    uri: result.uri ?? null
+  };
+}
+
+export async function handleSuggest(
+  text: string,
+  lang: string,
+  types?: SuggestType[],
+  results?: number,
+  area?: SearchArea
+): Promise<CallToolResult> {
+  const url = new URL(YANDEX_MAPS_SUGGEST_BASE_URL);
+  url.searchParams.append("text", text);
+  url.searchParams.append("lang", lang);
+  url.searchParams.append("results", String(results ?? 5));
+  if (types && types.length > 0) {
+    url.searchParams.append("types", [...new Set(types.map(type => SUGGEST_TYPES[type]))].join(','));
+  }
+  url.searchParams.append("attrs", "uri");
+  url.searchParams.append("print_address", "1");
+  url.searchParams.append("apikey", getApiKey("YANDEX_MAPS_SUGGEST_API_KEY"));
+  appendSearchArea(url, area, "strict_bounds");
+
+  let data: SuggestResponse;
+  try {
+    const response = await requestYandex(url);
+    data = await response.json() as SuggestResponse;
+  } catch (error) {
+    return errorResult("Suggest failed", error);
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        suggestions: (data.results ?? []).map(formatSuggestion)
+      }, null, 2)
+    }],
+    isError: false
+  };
+}
+
+export async function handleUsage(): Promise<CallToolResult> {
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(await getUsageReport(), null, 2)
+    }],
+    isError: false
+  };
+}
@@ -1,279 +1,441 @@
-import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from "node:http";
+import { setTimeout as sleep } from "node:timers/promises";
 import { URL } from "node:url";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { createMCPServer } from "./server.js";
-import { MAPS_TOOLS } from "./config.js";
-import { handleGeocode, handleReverseGeocode, handleRenderMap } from "./handlers.js";
+import { ToolRegistry, toolRegistry } from "./tool-registry.js";
+import { getCacheStats } from "./cache.js";
+import { AuthContext, AuthError, HttpAuth, createHttpAuthFromConfig } from "./auth.js";
+import { resourceOwner, resourceStore } from "./resources.js";
+import { getUsageReport } from "./usage.js";
+import { RequestId } from "@modelcontextprotocol/sdk/types.js";
+import {
+  API_KEY_BASE_URLS,
+  HTTP_ADMIN_CLIENTS,
+  HTTP_HOST,
+  HTTP_PORT,
+  MAX_REQUEST_BODY_BYTES,
+  READY_REQUIRED_API_KEYS,
+  hasApiKey,
+  MAX_SESSIONS,
+  SESSION_LIMIT_POLICY,
+  SESSION_IDLE_TIMEOUT_MS,
+  SESSION_MAX_LIFETIME_MS,
+  SESSION_SWEEP_INTERVAL_MS,
+  SHUTDOWN_TIMEOUT_MS
+} from "./config.js";
+import { logger, runWithLogContext } from "./logger.js";
+import { activeSessions, httpRequestsTotal, metricsRegistry } from "./metrics.js";
+import { probeUpstream } from "./yandex-client.js";
+import {
+  StreamableHttpServerTransport,
+  StreamableHttpError,
+  isInitializeRequest,
+  parsePost,
+  isRequest,
+  isResponse,
+  writeJsonRpcError
+} from "./streamable-http.js";
+
+const KNOWN_PATHS = ['/mcp', '/sse', '/message', '/tools', '/health', '/ready', '/metrics', '/admin/usage', '/admin/sessions'];
+const SESSION_ADMIN_PREFIX = '/admin/sessions/';
+
+/** Path label for metrics, with session IDs and unknown paths collapsed. */
+function metricsPath(pathname: string): string {
+  if (pathname.startsWith(SESSION_ADMIN_PREFIX)) {
+    return `${SESSION_ADMIN_PREFIX}{id}`;
+  }
+  return KNOWN_PATHS.includes(pathname) ? pathname : 'other';
+}
+
+/** Client-supplied request IDs are kept when they are short and plain. */
+function getRequestId(req: IncomingMessage): string {
+  const header = req.headers['x-request-id'];
+  return typeof header === 'string' && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+}
+
+function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address) {
+    return false;
+  }
+  const ipv4 = address.startsWith('::ffff:') ? address.slice('::ffff:'.length) : address;
+  return ipv4.startsWith('127.') || address === '::1';
+}
+
+function sessionTransportLabel(transport: SSEServerTransport | StreamableHttpServerTransport): string {
+  return transport instanceof SSEServerTransport ? "sse" : "streamable_http";
+}
 
 interface SessionData {
-  transport: SSEServerTransport;
+  transport: SSEServerTransport | StreamableHttpServerTransport;
   server: Server;
+  /** Client that created the session; only it may use the session. */
+  clientId?: string;
+  createdAt: number;
+  lastActivityAt: number;
+  /** Requests from the client that have not been answered yet. */
+  pendingRequests: Set<RequestId>;
 }
 
+type SessionCloseReason = "idle" | "max_lifetime" | "evicted" | "admin" | "shutdown";
+
 export class HttpTransport {
-  private transports = new Map<string, SSEServerTransport>();
-  private servers = new Map<string, Server>();
-  private sessionOrder: string[] = [];
+  private sessions = new Map<string, SessionData>();
+  private shuttingDown = false;
 
-  async runHttpServer(): Promise<void> {
+  constructor(
+    private readonly registry: ToolRegistry = toolRegistry,
+    private readonly auth: HttpAuth = createHttpAuthFromConfig()
+  ) {}
+
+  /** Starts listening on HOST and PORT and returns the server once it is listening. */
+  async runHttpServer(): Promise<NodeHttpServer> {
     const httpServer = createServer(async (req, res) => {
       await this.handleRequest(req, res);
     });
 
-    const PORT = process.env.PORT || 3000;
-    const HOST = process.env.HOST || '0.0.0.0';
-    
-    httpServer.listen(Number(PORT), HOST, () => {
-      console.error(`Yandex Maps MCP Server running on http://${HOST}:${PORT}`);
-      console.error(`Streamable HTTP endpoint: http://${HOST}:${PORT}/mcp`);
-      console.error(`Legacy SSE endpoint: http://${HOST}:${PORT}/sse`);
-      console.error(`Legacy message endpoint: http://${HOST}:${PORT}/message`);
+    httpServer.listen(HTTP_PORT, HTTP_HOST, () => {
+      const baseUrl = `http://${HTTP_HOST}:${HTTP_PORT}`;
+      logger.info("Yandex Maps MCP Server running", {
+        url: baseUrl,
+        streamable_http_endpoint: `${baseUrl}/mcp`,
+        legacy_sse_endpoint: `${baseUrl}/sse`,
+        legacy_message_endpoint: `${baseUrl}/message`
+      });
+      if (!this.auth.enabled) {
+        logger.warn("HTTP authentication is disabled, set YANDEX_MAPS_HTTP_AUTH_TOKENS or YANDEX_MAPS_HTTP_JWKS_FILE");
+      }
     });
 
-    process.on('SIGINT', () => {
-      console.error('\nShutting down...');
-      httpServer.close();
-      process.exit(0);
-    });
+    if (SESSION_IDLE_TIMEOUT_MS > 0 || SESSION_MAX_LIFETIME_MS > 0) {
+      setInterval(() => this.expireSessions(), SESSION_SWEEP_INTERVAL_MS).unref();
+    }
+
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (this.shuttingDown) {
+        logger.warn("Second signal received, exiting immediately", { signal });
+        process.exit(1);
+      }
+      logger.info("Shutting down", { signal, sessions: this.sessions.size, timeout_ms: SHUTDOWN_TIMEOUT_MS });
+      this.shutdown(httpServer).finally(() => process.exit(0));
+    };
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+
+    if (!httpServer.listening) {
+      await new Promise(resolve => httpServer.once('listening', resolve));
+    }
+    return httpServer;
+  }
+
+  /**
+   * Stops accepting connections and new sessions, waits up to SHUTDOWN_TIMEOUT_MS
+   * for requests in flight to be answered, then closes every session.
+   */
+  async shutdown(httpServer: NodeHttpServer): Promise<void> {
+    this.shuttingDown = true;
+    httpServer.close();
+    httpServer.closeIdleConnections();
+
+    const deadline = Date.now() + SHUTDOWN_TIMEOUT_MS;
+    while (this.countPendingRequests() > 0 && Date.now() < deadline) {
+      await sleep(100);
+    }
+    const pending = this.countPendingRequests();
+    if (pending > 0) {
+      logger.warn("Shutdown deadline reached with requests in flight", { pending_requests: pending });
+    }
+
+    await Promise.all([...this.sessions.keys()].map(sessionId => this.closeSession(sessionId, "shutdown")));
+    httpServer.closeAllConnections();
   }
 
   private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
     const url = new URL(req.url || '/', `http://${req.headers.host}`);
-    
-    console.error(`${new Date().toISOString()} - ${req.method} ${url.pathname}`);
-    
-    this.setCorsHeaders(res);
-    
-    if (req.method === 'OPTIONS') {
-      res.writeHead(200);
-      res.end();
+    const requestId = getRequestId(req);
+    const sessionId = (req.headers['mcp-session-id'] as string | undefined) ?? this.getLegacySessionId(req, url);
+    const started = performance.now();
+
+    res.setHeader('X-Request-Id', requestId);
+    res.on('finish', () => {
+      httpRequestsTotal.inc({ path: metricsPath(url.pathname), status: String(res.statusCode) });
+      // Streamable HTTP sessions get their ID in the response to initialize
+      const responseSessionId = res.getHeader('Mcp-Session-Id') as string | undefined;
+      logger.info("HTTP request", {
+        request_id: requestId,
+        session_id: sessionId ?? responseSessionId,
+        method: req.method,
+        path: url.pathname,
+        status: res.statusCode,
+        duration_ms: Math.round(performance.now() - started)
+      });
+    });
+
+    await runWithLogContext({ request_id: requestId, session_id: sessionId }, () => this.routeRequest(req, res, url));
+  }
+
+  private async routeRequest(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    this.setCorsHeaders(req, res);
+
+    // Probes stay reachable for load balancers and orchestrators
+    if (url.pathname === '/health') {
+      await this.handleHealthCheck(req, res);
+      return;
+    }
+    if (url.pathname === '/ready') {
+      await this.handleReadyCheck(req, res);
+      return;
+    }
+
+    let client: AuthContext | undefined;
+    try {
+      this.auth.checkOrigin(req);
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+      client = await this.auth.authenticate(req);
+    } catch (error) {
+      this.handleAuthError(res, error);
       return;
     }
 
     // Route handlers
     if (url.pathname === '/mcp') {
-      await this.handleMcpEndpoint(req, res, url);
+      await this.handleMcpEndpoint(req, res, client);
     } else if (url.pathname === '/sse') {
-      await this.handleLegacySseEndpoint(req, res);
+      await this.handleLegacySseEndpoint(req, res, client);
     } else if (url.pathname === '/message') {
-      await this.handleLegacyMessageEndpoint(req, res);
+      await this.handleLegacyMessageEndpoint(req, res, url, client);
     } else if (url.pathname === '/tools') {
       await this.handleToolsDiscovery(req, res);
-    } else if (url.pathname === '/health') {
-      await this.handleHealthCheck(req, res);
+    } else if (url.pathname === '/admin/usage') {
+      await this.handleAdminUsage(req, res, client);
+    } else if (url.pathname === '/metrics') {
+      await this.handleMetrics(req, res, client);
+    } else if (url.pathname === '/admin/sessions' || url.pathname.startsWith(SESSION_ADMIN_PREFIX)) {
+      await this.handleAdminSessions(req, res, url, client);
     } else {
       this.handle404(res);
     }
   }
 
-  private setCorsHeaders(res: ServerResponse): void {
-    res.setHeader('Access-Control-Allow-Origin', '*');
+  private setCorsHeaders(req: IncomingMessage, res: ServerResponse): void {
+    const origin = req.headers.origin;
+    res.setHeader('Vary', 'Origin');
+    if (origin && this.auth.isOriginAllowed(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+    }
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS, DELETE');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Session-Id, Accept, Last-Event-ID, Mcp-Session-Id');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Session-Id, X-Request-Id, Accept, Last-Event-ID, Mcp-Session-Id, MCP-Protocol-Version');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate, X-Request-Id');
   }
 
-  private async handleMcpEndpoint(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+  private handleAuthError(res: ServerResponse, error: unknown): void {
+    if (!(error instanceof AuthError)) {
+      logger.error("Error authenticating request", { error });
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Internal Server Error' }));
+      return;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (error.status === 401) {
+      // Per RFC 6750 a request without credentials gets the challenge without an error code
+      headers['WWW-Authenticate'] = error.code === 'missing_token'
+        ? 'Bearer realm="yandex-maps-mcp"'
+        : `Bearer realm="yandex-maps-mcp", error="${error.code}", error_description="${error.message.replace(/"/g, "'")}"`;
+    }
+    res.writeHead(error.status, headers);
+    res.end(JSON.stringify({ error: error.code, error_description: error.message }));
+  }
+
+  private async handleMcpEndpoint(req: IncomingMessage, res: ServerResponse, client?: AuthContext): Promise<void> {
     if (req.method === 'GET') {
-      await this.handleMcpGet(req, res);
+      await this.handleMcpGet(req, res, client);
     } else if (req.method === 'POST') {
-      await this.handleMcpPost(req, res);
+      await this.handleMcpPost(req, res, client);
     } else if (req.method === 'DELETE') {
-      await this.handleMcpDelete(req, res);
+      await this.handleMcpDelete(req, res, client);
     } else {
       this.handleMethodNotAllowed(res);
     }
   }
 
-  private async handleMcpGet(req: IncomingMessage, res: ServerResponse): Promise<void> {
-    const accept = req.headers.accept || '';
-    
-    if (accept.includes('text/event-stream')) {
-      try {
-        const transport = new SSEServerTransport('/mcp', res);
-        const server = createMCPServer();
-        
-        this.storeSession(transport, server);
-        console.error(`SSE connection established, session ID: ${transport.sessionId}`);
-        
-        await server.connect(transport);
-        
-        transport.onclose = () => {
-          this.cleanupSession(transport.sessionId);
-          console.error(`SSE connection closed, session ID: ${transport.sessionId}`);
-        };
-      } catch (error) {
-        console.error('Error establishing SSE connection:', error);
-        res.writeHead(500, { 'Content-Type': 'text/plain' });
-        res.end('Internal Server Error');
-      }
-    } else {
-      res.writeHead(405, { 'Content-Type': 'text/plain' });
-      res.end('Method Not Allowed');
+  private async handleMcpGet(req: IncomingMessage, res: ServerResponse, client?: AuthContext): Promise<void> {
+    try {
+      const transport = this.getStreamableTransport(req, client);
+      await transport.handleGet(req, res);
+    } catch (error) {
+      this.handleStreamableError(res, error);
     }
   }
 
-  private async handleMcpPost(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  private async handleMcpPost(req: IncomingMessage, res: ServerResponse, client?: AuthContext): Promise<void> {
+    let text: string;
     try {
-      const body = await this.readRequestBody(req);
-      const sessionId = req.headers['mcp-session-id'] as string || req.headers['x-session-id'] as string;
-      const transport = this.findTransport(sessionId);
-      
-      if (transport) {
-        await transport.handlePostMessage(req, res);
+      text = await this.readRequestBody(req);
+    } catch (error) {
+      if (error instanceof StreamableHttpError) {
+        // The rest of the body is not read, so the connection cannot be reused
+        res.setHeader('Connection', 'close');
+        writeJsonRpcError(res, error.status, error.code, error.message);
       } else {
-        await this.handleStreamableHttpPost(body, res);
+        logger.warn("Failed to read request body", { error });
+        res.destroy();
       }
-    } catch (error) {
-      console.error('Error handling POST request:', error);
-      this.sendJsonError(res, -32603, 'Internal error', error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      writeJsonRpcError(res, 400, -32700, 'Parse error: request body is not valid JSON');
+      return;
     }
-  }
 
-  private async handleStreamableHttpPost(body: string, res: ServerResponse): Promise<void> {
-    const jsonMessage = JSON.parse(body);
-    console.error('Handling Streamable HTTP request:', jsonMessage.method);
-    
-    switch (jsonMessage.method) {
-      case 'initialize':
-        this.sendJsonResponse(res, jsonMessage.id, {
-          protocolVersion: '2024-11-05',
-          serverInfo: {
-            name: 'mcp-server/yandex-maps',
-            version: '0.1.0'
-          },
-          capabilities: {
-            tools: {}
-          }
-        });
-        break;
-
-      case 'tools/list':
-        this.sendJsonResponse(res, jsonMessage.id, { tools: MAPS_TOOLS });
-        break;
-
-      case 'tools/call':
-        await this.handleToolCall(jsonMessage, res);
-        break;
-
-      default:
-        this.sendJsonError(res, -32601, 'Method not found', { method: jsonMessage.method }, jsonMessage.id);
-    }
-  }
-
-  private async handleToolCall(jsonMessage: any, res: ServerResponse): Promise<void> {
     try {
-      const toolName = jsonMessage.params.name;
-      const toolArgs = jsonMessage.params.arguments;
-      
-      let result;
-      switch (toolName) {
-        case 'maps_geocode':
-          result = await handleGeocode(
-            toolArgs.country, 
-            toolArgs.lang, 
-            toolArgs.state, 
-            toolArgs.city, 
-            toolArgs.district, 
-            toolArgs.street, 
-            toolArgs.house_number
-          );
-          break;
-        case 'maps_reverse_geocode':
-          result = await handleReverseGeocode(toolArgs.latitude, toolArgs.longitude, toolArgs.lang);
-          break;
-        case 'maps_render':
-          result = await handleRenderMap(
-            toolArgs.latitude, 
-            toolArgs.longitude, 
-            toolArgs.latitude_span, 
-            toolArgs.longitude_span, 
-            toolArgs.lang, 
-            toolArgs.placemarks
-          );
-          break;
-        default:
-          result = {
-            content: [{ type: "text", text: `Unknown tool: ${toolName}` }],
-            isError: true
-          };
+      if (!req.headers['mcp-session-id'] && isInitializeRequest(body)) {
+        // A request the transport would reject must not create, or evict, a session
+        parsePost(req, body);
+        const rejection = this.admitSession();
+        if (rejection) {
+          throw new StreamableHttpError(503, rejection, -32000);
+        }
+
+        const transport = new StreamableHttpServerTransport();
+        const server = createMCPServer(this.registry, resourceStore, { sessionId: transport.sessionId, clientId: client?.clientId });
+
+        server.onclose = () => {
+          this.cleanupSession(transport.sessionId);
+          logger.info("Streamable HTTP session closed", { session_id: transport.sessionId });
+        };
+        await server.connect(transport);
+        this.storeSession(transport, server, client);
+        logger.info("Streamable HTTP session established", { session_id: transport.sessionId, client_id: client?.clientId });
+
+        try {
+          await transport.handlePost(req, res, body);
+        } catch (error) {
+          await transport.close();
+          throw error;
+        }
+        return;
       }
-      
-      this.sendJsonResponse(res, jsonMessage.id, {
-        content: result.content,
-        isError: result.isError
-      });
+
+      const transport = this.getStreamableTransport(req, client);
+      await transport.handlePost(req, res, body);
     } catch (error) {
-      this.sendJsonResponse(res, jsonMessage.id, {
-        content: [{ type: "text", text: `Tool error: ${error instanceof Error ? error.message : String(error)}` }],
-        isError: true
-      });
+      this.handleStreamableError(res, error);
     }
   }
 
-  private async handleMcpDelete(req: IncomingMessage, res: ServerResponse): Promise<void> {
-    const sessionId = req.headers['mcp-session-id'] as string;
-    
-    if (sessionId && this.transports.has(sessionId)) {
-      const transport = this.transports.get(sessionId);
-      transport?.onclose?.();
+  private async handleMcpDelete(req: IncomingMessage, res: ServerResponse, client?: AuthContext): Promise<void> {
+    try {
+      const transport = this.getStreamableTransport(req, client);
+      await transport.close();
       res.writeHead(200, { 'Content-Type': 'text/plain' });
       res.end('Session terminated');
-    } else {
-      res.writeHead(404, { 'Content-Type': 'text/plain' });
-      res.end('Session not found');
+    } catch (error) {
+      this.handleStreamableError(res, error);
+    }
+  }
+
+  private getStreamableTransport(req: IncomingMessage, client?: AuthContext): StreamableHttpServerTransport {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId) {
+      throw new StreamableHttpError(400, 'Bad Request: Mcp-Session-Id header is required');
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session || !(session.transport instanceof StreamableHttpServerTransport)) {
+      throw new StreamableHttpError(404, 'Session not found', -32001);
     }
+    if (session.clientId !== client?.clientId) {
+      throw new StreamableHttpError(403, 'Forbidden: session belongs to another client');
+    }
+    return session.transport;
+  }
+
+  private handleStreamableError(res: ServerResponse, error: unknown): void {
+    if (res.headersSent) {
+      logger.error("Error handling Streamable HTTP request after response started", { error });
+      res.end();
+      return;
+    }
+    if (error instanceof StreamableHttpError) {
+      writeJsonRpcError(res, error.status, error.code, error.message);
+      return;
+    }
+    logger.error("Error handling Streamable HTTP request", { error });
+    writeJsonRpcError(res, 500, -32603, `Internal error: ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  private async handleLegacySseEndpoint(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  private async handleLegacySseEndpoint(req: IncomingMessage, res: ServerResponse, client?: AuthContext): Promise<void> {
     if (req.method !== 'GET') {
       this.handleMethodNotAllowed(res);
       return;
     }
 
-    console.error("Legacy SSE endpoint accessed");
-    
+    const rejection = this.admitSession();
+    if (rejection) {
+      res.writeHead(503, { 'Content-Type': 'text/plain' });
+      res.end(rejection);
+      return;
+    }
+
     try {
       const transport = new SSEServerTransport('/message', res);
-      const server = createMCPServer();
-      
-      this.storeSession(transport, server);
-      console.error(`Legacy SSE connection established, session ID: ${transport.sessionId}`);
-      
-      await server.connect(transport);
-      
-      transport.onclose = () => {
+      const server = createMCPServer(this.registry, resourceStore, { sessionId: transport.sessionId, clientId: client?.clientId });
+
+      server.onclose = () => {
         this.cleanupSession(transport.sessionId);
-        console.error(`Legacy SSE connection closed, session ID: ${transport.sessionId}`);
+        logger.info("Legacy SSE connection closed", { session_id: transport.sessionId });
       };
+      await server.connect(transport);
+      this.storeSession(transport, server, client);
+      logger.info("Legacy SSE connection established", { session_id: transport.sessionId, client_id: client?.clientId });
     } catch (error) {
-      console.error('Error establishing legacy SSE connection:', error);
+      logger.error("Error establishing legacy SSE connection", { error });
       res.writeHead(500, { 'Content-Type': 'text/plain' });
       res.end('Internal Server Error');
     }
   }
 
-  private async handleLegacyMessageEndpoint(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  private async handleLegacyMessageEndpoint(req: IncomingMessage, res: ServerResponse, url: URL, client?: AuthContext): Promise<void> {
     if (req.method !== 'POST') {
       this.handleMethodNotAllowed(res);
       return;
     }
 
-    console.error('Legacy message endpoint accessed');
-    
-    const sessionId = req.headers['x-session-id'] as string;
-    const transport = this.findTransport(sessionId);
-    
-    if (!transport) {
+    const sessionId = this.getLegacySessionId(req, url);
+    if (!sessionId) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('sessionId query parameter or X-Session-Id header is required');
+      return;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
       res.writeHead(404, { 'Content-Type': 'text/plain' });
-      res.end('No active session found');
+      res.end('Session not found');
+      return;
+    }
+
+    if (session.clientId !== client?.clientId) {
+      res.writeHead(403, { 'Content-Type': 'text/plain' });
+      res.end('Session belongs to another client');
       return;
     }
     
     try {
-      await transport.handlePostMessage(req, res);
+      await session.transport.handlePostMessage(req, res);
     } catch (error) {
-      console.error('Error handling legacy POST message:', error);
+      logger.error("Error handling legacy POST message", { error });
       res.writeHead(500, { 'Content-Type': 'text/plain' });
       res.end('Internal Server Error');
     }
@@ -287,14 +449,80 @@ export class HttpTransport {
 
     try {
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ tools: MAPS_TOOLS }));
+      res.end(JSON.stringify({ tools: this.registry.listTools() }));
     } catch (error) {
-      console.error('Error handling tools request:', error);
+      logger.error("Error handling tools request", { error });
       res.writeHead(500, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Internal Server Error' }));
     }
   }
 
+  private async handleAdminUsage(req: IncomingMessage, res: ServerResponse, client?: AuthContext): Promise<void> {
+    if (req.method !== 'GET') {
+      this.handleMethodNotAllowed(res);
+      return;
+    }
+    if (!this.isAdmin(req, client)) {
+      this.handleForbidden(res);
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(await getUsageReport()));
+  }
+
+  private async handleAdminSessions(req: IncomingMessage, res: ServerResponse, url: URL, client?: AuthContext): Promise<void> {
+    if (!this.isAdmin(req, client)) {
+      this.handleForbidden(res);
+      return;
+    }
+
+    if (url.pathname === '/admin/sessions') {
+      if (req.method !== 'GET') {
+        this.handleMethodNotAllowed(res);
+        return;
+      }
+      const now = Date.now();
+      const sessions = [...this.sessions.entries()].map(([sessionId, session]) => ({
+        session_id: sessionId,
+        transport: sessionTransportLabel(session.transport),
+        client_id: session.clientId ?? null,
+        created_at: new Date(session.createdAt).toISOString(),
+        last_activity_at: new Date(session.lastActivityAt).toISOString(),
+        idle_seconds: Math.floor((now - session.lastActivityAt) / 1000),
+        pending_requests: session.pendingRequests.size
+      }));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ max_sessions: MAX_SESSIONS || null, sessions }));
+      return;
+    }
+
+    if (req.method !== 'DELETE') {
+      this.handleMethodNotAllowed(res);
+      return;
+    }
+    const sessionId = decodeURIComponent(url.pathname.slice(SESSION_ADMIN_PREFIX.length));
+    if (!this.sessions.has(sessionId)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'not_found', error_description: `Session ${sessionId} not found` }));
+      return;
+    }
+    await this.closeSession(sessionId, "admin");
+    res.writeHead(204);
+    res.end();
+  }
+
+  /**
+   * Admin clients when authentication is enabled. Without it the server cannot tell
+   * callers apart, so only requests from the same machine are admitted.
+   */
+  private isAdmin(req: IncomingMessage, client?: AuthContext): boolean {
+    if (!this.auth.enabled) {
+      return isLoopbackAddress(req.socket.remoteAddress);
+    }
+    return client !== undefined && HTTP_ADMIN_CLIENTS.includes(client.clientId);
+  }
+
   private async handleHealthCheck(req: IncomingMessage, res: ServerResponse): Promise<void> {
     if (req.method !== 'GET') {
       this.handleMethodNotAllowed(res);
@@ -302,7 +530,50 @@ export class HttpTransport {
     }
 
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ status: 'ok', timestamp: new Date().toISOString() }));
+    res.end(JSON.stringify({ status: 'ok', timestamp: new Date().toISOString(), cache: getCacheStats() }));
+  }
+
+  /**
+   * Readiness fails while an API key in YANDEX_MAPS_READY_REQUIRED_KEYS is missing or
+   * the endpoint it is used with does not answer.
+   */
+  private async handleReadyCheck(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      this.handleMethodNotAllowed(res);
+      return;
+    }
+    if (this.shuttingDown) {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'shutting_down', timestamp: new Date().toISOString(), checks: [] }));
+      return;
+    }
+
+    const checks = await Promise.all(READY_REQUIRED_API_KEYS.map(async name => {
+      if (!hasApiKey(name)) {
+        return { api_key: name, status: 'missing' };
+      }
+      const error = await probeUpstream(API_KEY_BASE_URLS[name]);
+      return { api_key: name, status: error ? 'unreachable' : 'ok', error };
+    }));
+    const ready = checks.every(check => check.status === 'ok');
+
+    res.writeHead(ready ? 200 : 503, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: ready ? 'ready' : 'not_ready', timestamp: new Date().toISOString(), checks }));
+  }
+
+  private async handleMetrics(req: IncomingMessage, res: ServerResponse, client?: AuthContext): Promise<void> {
+    if (req.method !== 'GET') {
+      this.handleMethodNotAllowed(res);
+      return;
+    }
+    // Metrics are read-only, so without authentication scrapers from any address may read them
+    if (this.auth.enabled && !this.isAdmin(req, client)) {
+      this.handleForbidden(res);
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(metricsRegistry.render());
   }
 
   private handle404(res: ServerResponse): void {
@@ -310,63 +581,153 @@ export class HttpTransport {
     res.end('Not found');
   }
 
+  private handleForbidden(res: ServerResponse): void {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'forbidden', error_description: 'Admin access is required' }));
+  }
+
   private handleMethodNotAllowed(res: ServerResponse): void {
     res.writeHead(405, { 'Content-Type': 'text/plain' });
     res.end('Method Not Allowed');
   }
 
   // Helper methods
-  private storeSession(transport: SSEServerTransport, server: Server): void {
-    this.transports.set(transport.sessionId, transport);
-    this.servers.set(transport.sessionId, server);
-    this.sessionOrder.push(transport.sessionId);
+
+  /** Legacy SSE clients send the session ID from the endpoint event as a query parameter. */
+  private getLegacySessionId(req: IncomingMessage, url: URL): string | undefined {
+    return url.searchParams.get('sessionId') ?? req.headers['x-session-id'] as string | undefined;
   }
 
-  private cleanupSession(sessionId: string): void {
-    this.transports.delete(sessionId);
-    this.servers.delete(sessionId);
-    const index = this.sessionOrder.indexOf(sessionId);
-    if (index > -1) {
-      this.sessionOrder.splice(index, 1);
+  /**
+   * Checks whether a new session may be opened. At the session limit the "evict"
+   * policy closes the least recently active session that has no requests in flight;
+   * otherwise the reason for rejecting the new session is returned.
+   */
+  private admitSession(): string | undefined {
+    if (this.shuttingDown) {
+      return 'Server is shutting down';
+    }
+    if (MAX_SESSIONS === 0 || this.sessions.size < MAX_SESSIONS) {
+      return undefined;
+    }
+
+    if (SESSION_LIMIT_POLICY === 'evict') {
+      const candidates = [...this.sessions.entries()]
+        .filter(([, session]) => session.pendingRequests.size === 0)
+        .sort(([, a], [, b]) => a.lastActivityAt - b.lastActivityAt);
+      if (candidates.length > 0) {
+        void this.closeSession(candidates[0][0], "evicted");
+        return undefined;
+      }
     }
+    return `Session limit of ${MAX_SESSIONS} reached`;
+  }
+
+  private storeSession(transport: SSEServerTransport | StreamableHttpServerTransport, server: Server, client?: AuthContext): void {
+    const now = Date.now();
+    const session: SessionData = {
+      transport,
+      server,
+      clientId: client?.clientId,
+      createdAt: now,
+      lastActivityAt: now,
+      pendingRequests: new Set()
+    };
+    this.sessions.set(transport.sessionId, session);
+    activeSessions.inc({ transport: sessionTransportLabel(transport) });
+    this.trackActivity(session);
   }
 
-  private findTransport(sessionId?: string): SSEServerTransport | undefined {
-    if (sessionId) {
-      return this.transports.get(sessionId);
-    } else if (this.sessionOrder.length === 1) {
-      return this.transports.get(this.sessionOrder[0]);
+  /**
+   * Follows the messages of a connected session to know when it was last used and
+   * which requests are still being handled.
+   */
+  private trackActivity(session: SessionData): void {
+    const { transport } = session;
+    const onmessage = transport.onmessage;
+    transport.onmessage = message => {
+      session.lastActivityAt = Date.now();
+      if (isRequest(message)) {
+        session.pendingRequests.add(message.id);
+      }
+      onmessage?.(message);
+    };
+
+    const send = transport.send.bind(transport);
+    transport.send = async message => {
+      if (isResponse(message)) {
+        session.pendingRequests.delete(message.id);
+        session.lastActivityAt = Date.now();
+      }
+      return send(message);
+    };
+  }
+
+  private expireSessions(): void {
+    const now = Date.now();
+    for (const [sessionId, session] of this.sessions) {
+      if (SESSION_MAX_LIFETIME_MS > 0 && now - session.createdAt >= SESSION_MAX_LIFETIME_MS) {
+        void this.closeSession(sessionId, "max_lifetime");
+      } else if (SESSION_IDLE_TIMEOUT_MS > 0 && session.pendingRequests.size === 0 && now - session.lastActivityAt >= SESSION_IDLE_TIMEOUT_MS) {
+        void this.closeSession(sessionId, "idle");
+      }
     }
-    return undefined;
   }
 
-  private async readRequestBody(req: IncomingMessage): Promise<string> {
-    return new Promise((resolve) => {
-      let body = '';
-      req.on('data', chunk => {
-        body += chunk.toString();
-      });
-      req.on('end', () => {
-        resolve(body);
-      });
-    });
+  private async closeSession(sessionId: string, reason: SessionCloseReason): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    logger.info("Closing session", { session_id: sessionId, reason });
+    try {
+      await session.transport.close();
+    } catch (error) {
+      logger.error("Error closing session", { session_id: sessionId, error });
+    }
+    this.cleanupSession(sessionId);
   }
 
-  private sendJsonResponse(res: ServerResponse, id: any, result: any): void {
-    res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({
-      jsonrpc: '2.0',
-      id,
-      result
-    }));
+  private cleanupSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      activeSessions.dec({ transport: sessionTransportLabel(session.transport) });
+    }
+    this.sessions.delete(sessionId);
+    // Resources of authenticated clients outlive their sessions
+    resourceStore.removeOwner(resourceOwner({ sessionId }));
   }
 
-  private sendJsonError(res: ServerResponse, code: number, message: string, data?: any, id?: any): void {
-    res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({
-      jsonrpc: '2.0',
-      id: id || null,
-      error: { code, message, data }
-    }));
+  private countPendingRequests(): number {
+    return [...this.sessions.values()].reduce((total, session) => total + session.pendingRequests.size, 0);
+  }
+
+  /**
+   * Reads a request body of at most MAX_REQUEST_BODY_BYTES. Larger bodies are rejected
+   * with a 413 StreamableHttpError; a failed or aborted upload rejects with its error.
+   */
+  private async readRequestBody(req: IncomingMessage): Promise<string> {
+    const tooLarge = () => new StreamableHttpError(413, `Payload Too Large: request body exceeds ${MAX_REQUEST_BODY_BYTES} bytes`);
+    if (Number(req.headers['content-length']) > MAX_REQUEST_BODY_BYTES) {
+      throw tooLarge();
+    }
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_REQUEST_BODY_BYTES) {
+          req.off('data', onData);
+          reject(tooLarge());
+          return;
+        }
+        chunks.push(chunk);
+      };
+      req.on('data', onData);
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+      req.on('aborted', () => reject(new Error('Request aborted by the client')));
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { LOG_LEVEL, LogLevel } from "./config.js";
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Runs `fn` with fields, such as the request ID, that are added to every log line
+ * written while it runs, including from callbacks and promises it starts.
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return value.message;
+  }
+  return value;
+}
+
+/**
+ * Writes one JSON object per line to stderr; stdout belongs to the stdio transport.
+ * Fields with undefined values are left out.
+ */
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[LOG_LEVEL]) {
+    return;
+  }
+
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message };
+  for (const [name, value] of Object.entries({ ...context.getStore(), ...fields })) {
+    if (value !== undefined) {
+      entry[name] = serializeValue(value);
+    }
+  }
+  process.stderr.write(JSON.stringify(entry) + "\n");
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) => write("error", message, fields),
+};
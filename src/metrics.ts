@@ -0,0 +1,215 @@
+import { CacheStats, getCacheStats } from "./cache.js";
+
+export type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+  suffix?: string;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+/** Series keyed on their label values, in a stable label order. */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  abstract samples(): Sample[];
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const sample of this.samples()) {
+      lines.push(`${this.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  private values = new Map<string, Sample>();
+
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const sample = this.values.get(key) ?? { labels, value: 0 };
+    sample.value += value;
+    this.values.set(key, sample);
+  }
+
+  samples(): Sample[] {
+    return [...this.values.values()];
+  }
+}
+
+export class Gauge extends Metric {
+  private values = new Map<string, Sample>();
+
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const sample = this.values.get(labelKey(labels));
+    this.set(labels, (sample?.value ?? 0) + value);
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  samples(): Sample[] {
+    return [...this.values.values()];
+  }
+}
+
+/** Metric whose samples are read from another component on every scrape. */
+export class CollectedMetric extends Metric {
+  constructor(
+    name: string,
+    help: string,
+    type: "counter" | "gauge",
+    private readonly collect: () => Sample[]
+  ) {
+    super(name, help, type);
+  }
+
+  samples(): Sample[] {
+    return this.collect();
+  }
+}
+
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Histogram extends Metric {
+  private series = new Map<string, { labels: Labels, counts: number[], sum: number, count: number }>();
+
+  constructor(name: string, help: string, private readonly buckets = DEFAULT_DURATION_BUCKETS) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  samples(): Sample[] {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map((bound, index) => ({ labels: { ...labels, le: String(bound) }, value: counts[index], suffix: '_bucket' })),
+      { labels: { ...labels, le: '+Inf' }, value: count, suffix: '_bucket' },
+      { labels, value: sum, suffix: '_sum' },
+      { labels, value: count, suffix: '_count' }
+    ]);
+  }
+}
+
+/** Metrics rendered by /metrics in the Prometheus text exposition format. */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.some(existing => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.map(metric => metric.render()).join("\n") + "\n";
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const toolCallsTotal = metricsRegistry.register(new Counter(
+  "yandex_maps_tool_calls_total",
+  "Tool calls by tool and outcome"
+));
+
+export const toolCallDuration = metricsRegistry.register(new Histogram(
+  "yandex_maps_tool_call_duration_seconds",
+  "Time spent handling tool calls"
+));
+
+export const upstreamRequestsTotal = metricsRegistry.register(new Counter(
+  "yandex_maps_upstream_requests_total",
+  "Requests to Yandex APIs by host and HTTP status code, or timeout and network_error"
+));
+
+export const upstreamRequestDuration = metricsRegistry.register(new Histogram(
+  "yandex_maps_upstream_request_duration_seconds",
+  "Time until Yandex APIs responded"
+));
+
+export const httpRequestsTotal = metricsRegistry.register(new Counter(
+  "yandex_maps_http_requests_total",
+  "Requests to the HTTP transport by path and status code"
+));
+
+export const activeSessions = metricsRegistry.register(new Gauge(
+  "yandex_maps_active_sessions",
+  "Open MCP sessions of the HTTP transport by transport type"
+));
+activeSessions.set({ transport: "streamable_http" }, 0);
+activeSessions.set({ transport: "sse" }, 0);
+
+function cacheSamples(read: (stats: CacheStats) => number): Sample[] {
+  return Object.entries(getCacheStats()).map(([cache, stats]) => ({ labels: { cache }, value: read(stats) }));
+}
+
+metricsRegistry.register(new CollectedMetric(
+  "yandex_maps_cache_hits_total", "Response cache hits", "counter", () => cacheSamples(stats => stats.hits)
+));
+
+metricsRegistry.register(new CollectedMetric(
+  "yandex_maps_cache_misses_total", "Response cache misses", "counter", () => cacheSamples(stats => stats.misses)
+));
+
+metricsRegistry.register(new CollectedMetric(
+  "yandex_maps_cache_hit_ratio", "Share of response cache lookups that were hits", "gauge",
+  () => cacheSamples(stats => stats.hits + stats.misses > 0 ? stats.hits / (stats.hits + stats.misses) : 0)
+));
+
+metricsRegistry.register(new CollectedMetric(
+  "yandex_maps_cache_entries", "Entries held in memory by the response caches", "gauge", () => cacheSamples(stats => stats.size)
+));
@@ -0,0 +1,182 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { DEFAULT_LANG, SUPPORTED_LANGUAGES } from "./config.js";
+import { ToolRegistry } from "./tool-registry.js";
+
+const DEFAULT_PROMPT_LANG = DEFAULT_LANG ?? "en_US";
+
+interface PromptDefinition {
+  prompt: Prompt;
+  /** Tools the instructions cannot do without; tools they only mention as optional are not listed. */
+  tools: string[];
+  /** Builds the user message from arguments that include every required one. */
+  build: (args: Record<string, string>) => string;
+}
+
+const LANG_ARGUMENT = {
+  name: "lang",
+  description: `Language of addresses and map labels, one of ${SUPPORTED_LANGUAGES.join(", ")} (default ${DEFAULT_PROMPT_LANG})`,
+  required: false
+};
+
+function parseCoordinate(name: string, value: string, limit: number): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || Math.abs(parsed) > limit) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be a number between -${limit} and ${limit}`);
+  }
+  return parsed;
+}
+
+/** Accepts a JSON array of strings or one place per line. */
+function parsePlaces(value: string): string[] {
+  let places: unknown = undefined;
+  if (value.trim().startsWith('[')) {
+    try {
+      places = JSON.parse(value);
+    } catch {
+      places = undefined;
+    }
+  }
+  const list = Array.isArray(places) ? places.map(String) : value.split(/\r?\n|;/);
+  return list.map(place => place.trim()).filter(place => place !== '');
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    prompt: {
+      name: "locate_and_show",
+      description: "Find an address or place and show it on a map",
+      arguments: [
+        { name: "address", description: "Address or place name to find", required: true },
+        LANG_ARGUMENT
+      ]
+    },
+    tools: ["maps_geocode_query", "maps_render"],
+    build: ({ address, lang }) => [
+      `Show me where "${address}" is.`,
+      ``,
+      `1. Call maps_geocode_query with query "${address}" and lang ${lang}.`,
+      `2. If several candidates are plausible, list them briefly and pick the most precise one; ask me only if they are in different cities.`,
+      `3. Call maps_render with lang ${lang}, zoom 16, and one placemark at the chosen location.`,
+      `4. Reply with the full formatted address, its coordinates and the map.`
+    ].join("\n")
+  },
+  {
+    prompt: {
+      name: "plan_visit",
+      description: "Plan a walking visit to several places in a city and draw the route",
+      arguments: [
+        { name: "places", description: "Places to visit, as a JSON array of strings or one place per line", required: true },
+        { name: "city", description: "City the places are in", required: true },
+        LANG_ARGUMENT
+      ]
+    },
+    tools: ["maps_geocode_batch", "maps_distance_matrix", "maps_render"],
+    build: ({ places, city, lang }) => {
+      const list = parsePlaces(places);
+      if (list.length < 2) {
+        throw new McpError(ErrorCode.InvalidParams, "places must contain at least two places");
+      }
+      return [
+        `Plan a walking visit in ${city} to these places:`,
+        ...list.map(place => `- ${place}`),
+        ``,
+        `1. Geocode all places in one maps_geocode_batch call with lang ${lang}, prefixing each address with "${city}, ". Report any place that could not be found and continue without it.`,
+        `2. Call maps_distance_matrix with mode walking, using the found places as both origins and destinations, and choose a visiting order that keeps the total walking distance short.`,
+        `3. Call maps_route with mode walking from the first to the last place in that order, passing the others as waypoints.`,
+        `4. Call maps_render with lang ${lang}, placemarks labeled 1, 2, 3... in visiting order and the route geometry as a polyline; leave out the center so the map fits all of them.`,
+        `5. Reply with the visiting order, the walking distance and time between consecutive places, the total, and the map.`,
+        `If maps_route is not available, use maps_geometry distances instead and say that they are straight-line estimates.`
+      ].join("\n");
+    }
+  },
+  {
+    prompt: {
+      name: "describe_coordinates",
+      description: "Describe what is located at a pair of coordinates",
+      arguments: [
+        { name: "lat", description: "Latitude, -90 to 90", required: true },
+        { name: "lon", description: "Longitude, -180 to 180", required: true },
+        LANG_ARGUMENT
+      ]
+    },
+    tools: ["maps_reverse_geocode", "maps_render"],
+    build: ({ lat, lon, lang }) => {
+      const latitude = parseCoordinate("lat", lat, 90);
+      const longitude = parseCoordinate("lon", lon, 180);
+      return [
+        `Describe the place at latitude ${latitude}, longitude ${longitude}.`,
+        ``,
+        `1. Call maps_reverse_geocode with these coordinates and lang ${lang} to get the nearest address.`,
+        `2. Call maps_reverse_geocode again with kind district and with kind metro to find the district and the nearest metro station, if any.`,
+        `3. Call maps_render with lang ${lang}, zoom 15, centered on the coordinates with one placemark there.`,
+        `4. Reply with the address, district, country, nearest metro station and the map. If the point is not at a building, say how far the nearest address is.`
+      ].join("\n");
+    }
+  },
+  {
+    prompt: {
+      name: "compare_addresses",
+      description: "Compare two addresses: distance, direction and travel time between them",
+      arguments: [
+        { name: "first_address", description: "First address", required: true },
+        { name: "second_address", description: "Second address", required: true },
+        LANG_ARGUMENT
+      ]
+    },
+    tools: ["maps_geocode_batch", "maps_geometry", "maps_render"],
+    build: ({ first_address, second_address, lang }) => [
+      `Compare "${first_address}" and "${second_address}".`,
+      ``,
+      `1. Geocode both addresses in one maps_geocode_batch call with lang ${lang}.`,
+      `2. Call maps_geometry with operation distance and with operation bearing from the first to the second location.`,
+      `3. If maps_route is available, call it for driving and for walking between them.`,
+      `4. Call maps_render with lang ${lang} and placemarks labeled a and b, adding the driving route geometry as a polyline if you have it.`,
+      `5. Reply with both formatted addresses, the straight-line distance and direction, the travel times and the map.`
+    ].join("\n")
+  }
+];
+
+function getUnavailableTool(definition: PromptDefinition, registry: ToolRegistry): string | undefined {
+  return definition.tools.find(tool => registry.getUnavailableReason(tool) !== undefined);
+}
+
+/** Lists the prompts whose tools are all available in the registry. */
+export function listPrompts(registry: ToolRegistry): Prompt[] {
+  return PROMPTS
+    .filter(definition => getUnavailableTool(definition, registry) === undefined)
+    .map(definition => definition.prompt);
+}
+
+export function getPrompt(registry: ToolRegistry, name: string, args: Record<string, string> = {}): GetPromptResult {
+  const definition = PROMPTS.find(candidate => candidate.prompt.name === name);
+  if (!definition) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const unavailableTool = getUnavailableTool(definition, registry);
+  if (unavailableTool) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} is not available: ${registry.getUnavailableReason(unavailableTool)}`);
+  }
+
+  const missing = (definition.prompt.arguments ?? [])
+    .filter(argument => argument.required && (args[argument.name] === undefined || args[argument.name].trim() === ''))
+    .map(argument => argument.name);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for prompt ${name}: ${missing.join(", ")}`);
+  }
+
+  const lang = args.lang ?? DEFAULT_PROMPT_LANG;
+  if (!SUPPORTED_LANGUAGES.includes(lang)) {
+    throw new McpError(ErrorCode.InvalidParams, `lang must be one of ${SUPPORTED_LANGUAGES.join(", ")}`);
+  }
+
+  return {
+    description: definition.prompt.description,
+    messages: [{
+      role: "user",
+      content: {
+        type: "text",
+        text: definition.build({ ...args, lang })
+      }
+    }]
+  };
+}
@@ -0,0 +1,175 @@
+import { createHash } from "node:crypto";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Resource, ResourceTemplate, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { MAX_MAP_RESOURCES, MAX_PLACE_RESOURCES } from "./config.js";
+import { CallContext, getCallContext } from "./usage.js";
+
+export type ResourceKind = "map" | "place";
+
+export const RESOURCE_SCHEME = "yandex-maps";
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://map/{id}`,
+    name: "Rendered map",
+    description: "Map image rendered by maps_render",
+    mimeType: "image/png"
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://place/{id}`,
+    name: "Place",
+    description: "Location and address returned by the geocoding and place search tools",
+    mimeType: "application/json"
+  }
+];
+
+export interface StoredResource {
+  uri: string;
+  name: string;
+  mimeType: string;
+  text?: string;
+  blob?: string;
+}
+
+/** Sessions or clients a resource is visible to; see resourceOwner(). */
+export type ResourceOwner = string;
+
+export type ResourceEvent =
+  | { type: "list_changed", owner: ResourceOwner }
+  | { type: "updated", owner: ResourceOwner, uri: string };
+export type ResourceListener = (event: ResourceEvent) => void;
+
+/**
+ * Authenticated clients own the resources of all their sessions; without
+ * authentication every session owns its own.
+ */
+export function resourceOwner(context: CallContext): ResourceOwner {
+  if (context.clientId) {
+    return `client:${context.clientId}`;
+  }
+  return context.sessionId ? `session:${context.sessionId}` : "";
+}
+
+function eventKey(event: ResourceEvent): string {
+  return event.type === "list_changed" ? `${event.owner}\n` : `${event.owner}\n${event.uri}`;
+}
+
+/**
+ * Maps and places produced by tool calls, kept so clients can refer back to them by
+ * URI. Every entry belongs to the owner of the tool call that stored it, taken from
+ * the call context, and is only listed and read for that owner. Each owner keeps at
+ * most a fixed number of entries per kind, dropping its least recently stored ones
+ * first, so one busy client cannot push out the resources of others.
+ */
+export class ResourceStore {
+  private owners = new Map<ResourceOwner, Record<ResourceKind, Map<string, StoredResource>>>();
+  private listeners = new Set<ResourceListener>();
+  private pendingEvents = new AsyncLocalStorage<Map<string, ResourceEvent>>();
+
+  constructor(private readonly maxEntries: Record<ResourceKind, number>) {}
+
+  /** Stores a resource under a content-derived id and returns its URI. */
+  put(
+    kind: ResourceKind,
+    key: string,
+    resource: Omit<StoredResource, "uri">,
+    owner: ResourceOwner = resourceOwner(getCallContext())
+  ): string {
+    const uri = `${RESOURCE_SCHEME}://${kind}/${createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+    let resources = this.owners.get(owner);
+    if (!resources) {
+      resources = { map: new Map(), place: new Map() };
+      this.owners.set(owner, resources);
+    }
+    const entries = resources[kind];
+    const previous = entries.get(uri);
+    entries.delete(uri);
+    entries.set(uri, { uri, ...resource });
+
+    while (entries.size > this.maxEntries[kind]) {
+      entries.delete(entries.keys().next().value as string);
+    }
+
+    if (!previous) {
+      this.emit({ type: "list_changed", owner });
+    } else if (previous.text !== resource.text || previous.blob !== resource.blob) {
+      this.emit({ type: "updated", owner, uri });
+    }
+    return uri;
+  }
+
+  get(uri: string, owner: ResourceOwner): StoredResource | undefined {
+    const kind = uri.slice(`${RESOURCE_SCHEME}://`.length).split('/')[0] as ResourceKind;
+    return this.owners.get(owner)?.[kind]?.get(uri);
+  }
+
+  /** Descriptions of the owner's resources, most recently stored first. */
+  list(owner: ResourceOwner): Resource[] {
+    const resources = this.owners.get(owner);
+    if (!resources) {
+      return [];
+    }
+    return Object.values(resources)
+      .flatMap(entries => [...entries.values()].reverse())
+      .map(({ uri, name, mimeType }) => ({ uri, name, mimeType }));
+  }
+
+  /** Forgets every resource of the owner, e.g. when its session has ended. */
+  removeOwner(owner: ResourceOwner): void {
+    this.owners.delete(owner);
+  }
+
+  addListener(listener: ResourceListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Runs `fn` and holds back the events of the resources it stores until it is done,
+   * so one tool call sends at most one list_changed notification per owner and one
+   * updated notification per resource.
+   */
+  async batchEvents<T>(fn: () => Promise<T>): Promise<T> {
+    const pending = new Map<string, ResourceEvent>();
+    try {
+      return await this.pendingEvents.run(pending, fn);
+    } finally {
+      pending.forEach(event => this.emit(event));
+    }
+  }
+
+  private emit(event: ResourceEvent): void {
+    const pending = this.pendingEvents.getStore();
+    if (pending) {
+      pending.set(eventKey(event), event);
+      return;
+    }
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+export const resourceStore = new ResourceStore({ map: MAX_MAP_RESOURCES, place: MAX_PLACE_RESOURCES });
+
+/** Stores a rendered map and returns its description. */
+export function storeMap(key: string, image: { data: string, mimeType: string }, name: string): Resource {
+  const uri = resourceStore.put("map", key, { name, mimeType: image.mimeType, blob: image.data });
+  return { uri, name, mimeType: image.mimeType };
+}
+
+/**
+ * Stores a place and returns its description. Places with the same key share a URI,
+ * so fresher data for a known place is reported as an update.
+ */
+export function storePlace(place: object, name: string, key = name): Resource {
+  const uri = resourceStore.put("place", key, { name, mimeType: "application/json", text: JSON.stringify(place, null, 2) });
+  return { uri, name, mimeType: "application/json" };
+}
+
+/**
+ * Text item listing stored resources by URI for a tool result. The content itself is
+ * left to resources/read, so results do not carry every map or place twice.
+ */
+export function resourceLinks(resources: Resource[]): TextContent {
+  const unique = [...new Map(resources.map(resource => [resource.uri, resource])).values()];
+  return { type: "text", text: JSON.stringify({ resources: unique }, null, 2) };
+}
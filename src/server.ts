@@ -2,84 +2,111 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   CallToolResult,
+  ErrorCode,
+  McpError,
 } from "@modelcontextprotocol/sdk/types.js";
-import { MAPS_TOOLS } from "./config.js";
-import { handleGeocode, handleReverseGeocode, handleRenderMap } from "./handlers.js";
+import { SERVER_INFO } from "./config.js";
+import { ToolRegistry, toolRegistry } from "./tool-registry.js";
+import { getPrompt, listPrompts } from "./prompts.js";
+import { RESOURCE_TEMPLATES, ResourceEvent, ResourceStore, resourceOwner, resourceStore } from "./resources.js";
+import { CallContext } from "./usage.js";
 
-export function createMCPServer(): Server {
+// JSON-RPC error code the MCP specification assigns to unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+export const SERVER_CAPABILITIES = {
+  tools: {},
+  resources: {
+    subscribe: true,
+    listChanged: true,
+  },
+  prompts: {},
+};
+
+/**
+ * Creates a server for one client connection. The context identifies the session
+ * and the authenticated client that tool calls are rate limited and accounted for.
+ */
+export function createMCPServer(
+  registry: ToolRegistry = toolRegistry,
+  resources: ResourceStore = resourceStore,
+  context: CallContext = {}
+): Server {
   const server = new Server(
+    SERVER_INFO,
     {
-      name: "mcp-server/yandex-maps",
-      version: "0.1.0",
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
+      capabilities: SERVER_CAPABILITIES,
     },
   );
 
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: MAPS_TOOLS,
+    tools: registry.listTools(),
   }));
 
   server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
-    try {
-      switch (request.params.name) {
-        case "maps_geocode": {
-          const { country, lang, state, city, district, street, house_number } = request.params.arguments as { 
-            country: string;
-            lang: string;
-            state?: string;
-            city?: string;
-            district?: string;
-            street?: string;
-            house_number?: string;
-          };
-          return await handleGeocode(country, lang, state, city, district, street, house_number);
-        }
-
-        case "maps_reverse_geocode": {
-          const { latitude, longitude, lang } = request.params.arguments as {
-            latitude: number;
-            longitude: number;
-            lang: string;
-          };
-          return await handleReverseGeocode(latitude, longitude, lang);
-        }
-
-        case "maps_render": {
-          const { latitude, longitude, latitude_span, longitude_span, lang, placemarks } = request.params.arguments as {
-            latitude: number;
-            longitude: number;
-            latitude_span: number;
-            longitude_span: number;
-            lang: string;
-            placemarks?: Array<{ latitude: number, longitude: number }>;
-          };
-          return await handleRenderMap(latitude, longitude, latitude_span, longitude_span, lang, placemarks);
-        }
-
-        default:
-          return {
-            content: [{
-              type: "text",
-              text: `Unknown tool: ${request.params.name}`
-            }],
-            isError: true
-          };
-      }
-    } catch (error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`
-        }],
-        isError: true
-      };
+    return resources.batchEvents(() => registry.call(request.params.name, request.params.arguments, context));
+  });
+
+  const owner = resourceOwner(context);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: resources.list(owner),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const resource = resources.get(request.params.uri, owner);
+    if (!resource) {
+      throw new McpError(RESOURCE_NOT_FOUND as ErrorCode, `Resource not found: ${request.params.uri}`);
+    }
+    const { uri, mimeType, text, blob } = resource;
+    return {
+      contents: [text !== undefined ? { uri, mimeType, text } : { uri, mimeType, blob: blob as string }],
+    };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(registry),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(registry, request.params.name, request.params.arguments);
+  });
+
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // The store outlives sessions; a server whose transport is gone fails to notify
+  // and is detached on the next event.
+  const removeListener = resources.addListener((event: ResourceEvent) => {
+    if (event.owner !== owner) {
+      return;
     }
+    const notification = event.type === "list_changed"
+      ? server.sendResourceListChanged()
+      : subscriptions.has(event.uri) ? server.sendResourceUpdated({ uri: event.uri }) : undefined;
+    notification?.catch(() => removeListener());
   });
 
   return server;
-}
\ No newline at end of file
+}
@@ -0,0 +1,392 @@
+import { randomUUID } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  JSONRPCError,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  LATEST_PROTOCOL_VERSION,
+  RequestId,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Protocol revisions accepted in the MCP-Protocol-Version header: exactly those the
+ * SDK's Server negotiates in initialize, which it answers with the requested
+ * revision when supported and its latest one otherwise.
+ */
+export const STREAMABLE_HTTP_PROTOCOL_VERSIONS = SUPPORTED_PROTOCOL_VERSIONS;
+
+const MAX_EVENTS_PER_STREAM = 100;
+const MAX_RETAINED_STREAMS = 50;
+
+interface StreamEvent {
+  id: string;
+  message: JSONRPCMessage;
+}
+
+/**
+ * One SSE stream of the session: either the response stream of a POST or the
+ * standalone GET stream. Events are kept after delivery so a client that lost the
+ * connection can resume with Last-Event-ID.
+ */
+interface SseStream {
+  id: string;
+  events: StreamEvent[];
+  nextSeq: number;
+  res?: ServerResponse;
+  pendingRequestIds: Set<RequestId>;
+  standalone: boolean;
+  completed: boolean;
+}
+
+interface JsonCollector {
+  res: ServerResponse;
+  batch: boolean;
+  requestIds: RequestId[];
+  responses: Map<RequestId, JSONRPCMessage>;
+}
+
+export class StreamableHttpError extends Error {
+  constructor(readonly status: number, message: string, readonly code: number = -32600) {
+    super(message);
+    this.name = "StreamableHttpError";
+  }
+}
+
+export function isRequest(message: JSONRPCMessage): message is JSONRPCRequest {
+  return "method" in message && "id" in message;
+}
+
+export function isResponse(message: JSONRPCMessage): message is JSONRPCResponse | JSONRPCError {
+  return !("method" in message) && "id" in message;
+}
+
+export function isInitializeRequest(body: unknown): boolean {
+  return typeof body === "object" && body !== null && !Array.isArray(body) &&
+    (body as { method?: unknown }).method === "initialize";
+}
+
+export function writeJsonRpcError(res: ServerResponse, status: number, code: number, message: string, id: RequestId | null = null): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code, message } }));
+}
+
+export interface ParsedPost {
+  acceptsSse: boolean;
+  batch: boolean;
+  messages: JSONRPCMessage[];
+}
+
+/**
+ * Checks the Accept header of a POST and validates its JSON-RPC messages, throwing
+ * StreamableHttpError for a request the transport would reject. The HTTP server
+ * calls it before creating a session for an initialize request.
+ */
+export function parsePost(req: IncomingMessage, body: unknown): ParsedPost {
+  const accept = req.headers.accept || '';
+  const acceptsJson = accept.includes('application/json') || accept.includes('*/*');
+  const acceptsSse = accept.includes('text/event-stream');
+  if (!acceptsJson && !acceptsSse) {
+    throw new StreamableHttpError(406, 'Not Acceptable: client must accept application/json or text/event-stream');
+  }
+
+  const batch = Array.isArray(body);
+  const rawMessages = batch ? body as unknown[] : [body];
+  if (rawMessages.length === 0) {
+    throw new StreamableHttpError(400, 'Invalid Request: empty batch');
+  }
+
+  const messages: JSONRPCMessage[] = [];
+  for (const rawMessage of rawMessages) {
+    const parsed = JSONRPCMessageSchema.safeParse(rawMessage);
+    if (!parsed.success) {
+      throw new StreamableHttpError(400, `Invalid Request: ${parsed.error.message}`);
+    }
+    messages.push(parsed.data);
+  }
+  return { acceptsSse, batch, messages };
+}
+
+/**
+ * Server side of the MCP Streamable HTTP transport for a single session. The
+ * HTTP server routes POST, GET and DELETE requests carrying this session's
+ * Mcp-Session-Id to handlePost, handleGet and close.
+ */
+export class StreamableHttpServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  protocolVersion?: string;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private streams = new Map<string, SseStream>();
+  private standaloneStream?: SseStream;
+  private requestStreams = new Map<RequestId, SseStream>();
+  private requestCollectors = new Map<RequestId, JsonCollector>();
+  /** Requests whose JSON-mode client disconnected; their responses are discarded. */
+  private abandonedRequestIds = new Set<RequestId>();
+  private initializeRequestId?: RequestId;
+  private closed = false;
+
+  async start(): Promise<void> {}
+
+  async handlePost(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const { acceptsSse, batch, messages } = parsePost(req, body);
+
+    const initialize = messages.filter(isRequest).find(message => message.method === 'initialize');
+    if (initialize) {
+      if (messages.length > 1) {
+        throw new StreamableHttpError(400, 'Invalid Request: initialize must not be part of a batch');
+      }
+      if (this.initializeRequestId !== undefined) {
+        throw new StreamableHttpError(400, 'Invalid Request: session is already initialized');
+      }
+      this.negotiateProtocolVersion(initialize);
+    } else {
+      this.checkProtocolVersionHeader(req);
+    }
+
+    res.setHeader('Mcp-Session-Id', this.sessionId);
+
+    const requests = messages.filter(isRequest);
+    if (requests.length === 0) {
+      res.writeHead(202);
+      res.end();
+      messages.forEach(message => this.onmessage?.(message));
+      return;
+    }
+
+    if (acceptsSse) {
+      const stream = this.createStream(false);
+      requests.forEach(request => {
+        stream.pendingRequestIds.add(request.id);
+        this.requestStreams.set(request.id, stream);
+      });
+      this.attachResponse(stream, res);
+    } else {
+      const collector: JsonCollector = { res, batch, requestIds: requests.map(request => request.id), responses: new Map() };
+      requests.forEach(request => this.requestCollectors.set(request.id, collector));
+      res.on('close', () => this.dropCollector(collector));
+    }
+
+    messages.forEach(message => this.onmessage?.(message));
+  }
+
+  async handleGet(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const accept = req.headers.accept || '';
+    if (!accept.includes('text/event-stream')) {
+      throw new StreamableHttpError(406, 'Not Acceptable: client must accept text/event-stream');
+    }
+    this.checkProtocolVersionHeader(req);
+
+    const lastEventId = req.headers['last-event-id'] as string | undefined;
+    if (lastEventId) {
+      this.resumeStream(lastEventId, res);
+      return;
+    }
+
+    if (this.standaloneStream?.res) {
+      throw new StreamableHttpError(409, 'Conflict: a stream is already open for this session');
+    }
+
+    this.standaloneStream ??= this.createStream(true);
+    res.setHeader('Mcp-Session-Id', this.sessionId);
+    this.attachResponse(this.standaloneStream, res);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Not connected');
+    }
+
+    if (isResponse(message)) {
+      const collector = this.requestCollectors.get(message.id);
+      if (collector) {
+        this.requestCollectors.delete(message.id);
+        this.collectJsonResponse(collector, message);
+        return;
+      }
+      if (this.abandonedRequestIds.delete(message.id)) {
+        return;
+      }
+
+      const stream = this.requestStreams.get(message.id);
+      if (stream) {
+        this.requestStreams.delete(message.id);
+        stream.pendingRequestIds.delete(message.id);
+        this.writeEvent(stream, message);
+        if (stream.pendingRequestIds.size === 0) {
+          this.completeStream(stream);
+        }
+        return;
+      }
+
+      this.onerror?.(new Error(`No open request for response ${String(message.id)}`));
+      return;
+    }
+
+    // Server-initiated requests and notifications go to the standalone stream when
+    // the client opened one, otherwise to any POST stream that is still running.
+    const target = this.standaloneStream?.res
+      ? this.standaloneStream
+      : [...this.streams.values()].find(stream => !stream.standalone && !stream.completed);
+    if (target) {
+      this.writeEvent(target, message);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const stream of this.streams.values()) {
+      stream.res?.end();
+      stream.res = undefined;
+    }
+    for (const collector of new Set(this.requestCollectors.values())) {
+      if (!collector.res.writableEnded) {
+        writeJsonRpcError(collector.res, 503, -32000, 'Session terminated');
+      }
+    }
+    this.streams.clear();
+    this.requestStreams.clear();
+    this.requestCollectors.clear();
+    this.abandonedRequestIds.clear();
+
+    this.onclose?.();
+  }
+
+  private negotiateProtocolVersion(initialize: JSONRPCRequest): void {
+    const requested = initialize.params?.protocolVersion;
+    this.initializeRequestId = initialize.id;
+    this.protocolVersion = typeof requested === 'string' && STREAMABLE_HTTP_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : LATEST_PROTOCOL_VERSION;
+  }
+
+  private checkProtocolVersionHeader(req: IncomingMessage): void {
+    const version = req.headers['mcp-protocol-version'] as string | undefined;
+    if (version && !STREAMABLE_HTTP_PROTOCOL_VERSIONS.includes(version)) {
+      throw new StreamableHttpError(
+        400,
+        `Bad Request: unsupported MCP-Protocol-Version ${version}, supported: ${STREAMABLE_HTTP_PROTOCOL_VERSIONS.join(', ')}`
+      );
+    }
+  }
+
+  private createStream(standalone: boolean): SseStream {
+    const stream: SseStream = {
+      id: randomUUID(),
+      events: [],
+      nextSeq: 0,
+      pendingRequestIds: new Set(),
+      standalone,
+      completed: false
+    };
+    this.streams.set(stream.id, stream);
+
+    // Keep the history of a bounded number of streams for resumption
+    for (const [id, retained] of this.streams) {
+      if (this.streams.size <= MAX_RETAINED_STREAMS) {
+        break;
+      }
+      if (retained.completed) {
+        this.streams.delete(id);
+      }
+    }
+
+    return stream;
+  }
+
+  private attachResponse(stream: SseStream, res: ServerResponse): void {
+    if (!res.headersSent) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+    }
+    stream.res = res;
+    res.on('close', () => {
+      if (stream.res === res) {
+        stream.res = undefined;
+      }
+    });
+  }
+
+  private resumeStream(lastEventId: string, res: ServerResponse): void {
+    const separator = lastEventId.lastIndexOf('_');
+    const stream = this.streams.get(lastEventId.slice(0, separator));
+    const seq = Number(lastEventId.slice(separator + 1));
+    if (!stream || separator === -1 || Number.isNaN(seq)) {
+      throw new StreamableHttpError(404, 'Not Found: unknown Last-Event-ID');
+    }
+    if (stream.res) {
+      throw new StreamableHttpError(409, 'Conflict: the stream is still connected');
+    }
+
+    res.setHeader('Mcp-Session-Id', this.sessionId);
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    for (const event of stream.events) {
+      if (Number(event.id.slice(event.id.lastIndexOf('_') + 1)) > seq) {
+        res.write(this.formatEvent(event));
+      }
+    }
+
+    if (stream.completed) {
+      res.end();
+    } else {
+      this.attachResponse(stream, res);
+    }
+  }
+
+  private writeEvent(stream: SseStream, message: JSONRPCMessage): void {
+    const event = { id: `${stream.id}_${stream.nextSeq++}`, message };
+    stream.events.push(event);
+    if (stream.events.length > MAX_EVENTS_PER_STREAM) {
+      stream.events.shift();
+    }
+    stream.res?.write(this.formatEvent(event));
+  }
+
+  private formatEvent(event: StreamEvent): string {
+    return `id: ${event.id}\nevent: message\ndata: ${JSON.stringify(event.message)}\n\n`;
+  }
+
+  private completeStream(stream: SseStream): void {
+    stream.completed = true;
+    stream.res?.end();
+    stream.res = undefined;
+  }
+
+  private collectJsonResponse(collector: JsonCollector, message: JSONRPCResponse | JSONRPCError): void {
+    collector.responses.set(message.id, message);
+    if (collector.responses.size < collector.requestIds.length || collector.res.writableEnded) {
+      return;
+    }
+
+    const responses = collector.requestIds.map(id => collector.responses.get(id));
+    collector.res.writeHead(200, { 'Content-Type': 'application/json' });
+    collector.res.end(JSON.stringify(collector.batch ? responses : responses[0]));
+  }
+
+  /** Forgets a JSON response whose client went away before all its responses arrived. */
+  private dropCollector(collector: JsonCollector): void {
+    for (const id of collector.requestIds) {
+      if (this.requestCollectors.get(id) === collector) {
+        this.requestCollectors.delete(id);
+        this.abandonedRequestIds.add(id);
+      }
+    }
+  }
+}
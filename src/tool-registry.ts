@@ -0,0 +1,187 @@
+import { CallToolResult, McpError, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ApiKeyName, DEFAULT_LANG, hasApiKey } from "./config.js";
+import { validateToolArguments } from "./validation.js";
+import { BUILTIN_TOOLS } from "./tools.js";
+import { CallContext, rateLimiter, runWithCallContext, usageTracker } from "./usage.js";
+import { logger } from "./logger.js";
+import { toolCallDuration, toolCallsTotal } from "./metrics.js";
+
+/** A tool and its handler. TArgs is the argument shape that tool.inputSchema describes. */
+export interface ToolDefinition<TArgs = unknown> {
+  /** Definition advertised through tools/list and /tools. */
+  tool: Tool;
+  /** API key the tool needs; the tool is hidden and rejected while it is missing. */
+  apiKey?: ApiKeyName;
+  /**
+   * Called with arguments that already passed validation against tool.inputSchema.
+   * Throwing an McpError reports a JSON-RPC error instead of an error result.
+   * Declared as a method so that definitions typed with their own arguments can be
+   * registered as a ToolDefinition.
+   */
+  handler(args: TArgs): Promise<CallToolResult>;
+  /** Exempts the tool from rate limits and usage counting. */
+  unmetered?: boolean;
+}
+
+/** Outcome of a tool call as reported in metrics and logs. */
+export type ToolCallStatus = "ok" | "error" | "unavailable" | "rate_limited" | "invalid_params";
+
+export interface ToolSelection {
+  enable?: string[];
+  disable?: string[];
+}
+
+/**
+ * Single source of truth for the tools served over every transport. Built-in tools
+ * are registered up front; embedding code can add its own with register() before
+ * starting a transport.
+ */
+export class ToolRegistry {
+  private definitions = new Map<string, ToolDefinition>();
+  private selection: ToolSelection = {};
+
+  constructor(definitions: ToolDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  register(definition: ToolDefinition): void {
+    if (this.definitions.has(definition.tool.name)) {
+      throw new Error(`Tool ${definition.tool.name} is already registered`);
+    }
+    this.definitions.set(definition.tool.name, definition);
+  }
+
+  configure(selection: ToolSelection): void {
+    for (const name of [...(selection.enable ?? []), ...(selection.disable ?? [])]) {
+      if (!this.definitions.has(name)) {
+        logger.warn("Unknown tool in tool selection", { tool: name });
+      }
+    }
+    this.selection = selection;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  /**
+   * Returns why a registered tool cannot be called, or undefined when it is usable.
+   */
+  getUnavailableReason(name: string): string | undefined {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      return `Unknown tool: ${name}`;
+    }
+    if (this.selection.enable && !this.selection.enable.includes(name)) {
+      return `Tool ${name} is not enabled on this server`;
+    }
+    if (this.selection.disable?.includes(name)) {
+      return `Tool ${name} is disabled on this server`;
+    }
+    if (definition.apiKey && !hasApiKey(definition.apiKey)) {
+      return `Tool ${name} is not configured: ${definition.apiKey} environment variable is not set`;
+    }
+    return undefined;
+  }
+
+  listTools(): Tool[] {
+    return [...this.definitions.values()]
+      .filter(definition => !this.getUnavailableReason(definition.tool.name))
+      .map(definition => withDefaultLang(definition.tool));
+  }
+
+  /**
+   * Dispatches a tool call. Invalid arguments throw an InvalidParams McpError;
+   * every other failure, including an exceeded rate limit, is reported as an error
+   * result.
+   */
+  async call(name: string, args: unknown, context: CallContext = {}): Promise<CallToolResult> {
+    const started = performance.now();
+    let status: ToolCallStatus = "invalid_params";
+    try {
+      const outcome = await runWithCallContext(context, () => this.dispatch(name, args, context));
+      status = outcome.status;
+      return outcome.result;
+    } finally {
+      const seconds = (performance.now() - started) / 1000;
+      // Unknown names are collapsed into one label so callers cannot grow the series
+      const tool = this.definitions.has(name) ? name : "unknown";
+      toolCallsTotal.inc({ tool, status });
+      toolCallDuration.observe({ tool }, seconds);
+      logger.info("Tool call", {
+        tool: name,
+        status,
+        duration_ms: Math.round(seconds * 1000),
+        session_id: context.sessionId,
+        client_id: context.clientId
+      });
+    }
+  }
+
+  private async dispatch(
+    name: string,
+    args: unknown,
+    context: CallContext
+  ): Promise<{ result: CallToolResult, status: ToolCallStatus }> {
+    const unavailableReason = this.getUnavailableReason(name);
+    if (unavailableReason) {
+      return { result: errorText(unavailableReason), status: "unavailable" };
+    }
+
+    const definition = this.definitions.get(name) as ToolDefinition;
+    let validatedArgs = validateToolArguments(withDefaultLang(definition.tool), args);
+    if (DEFAULT_LANG && hasLangProperty(definition.tool) && validatedArgs.lang === undefined) {
+      validatedArgs = { ...validatedArgs, lang: DEFAULT_LANG };
+    }
+
+    if (!definition.unmetered) {
+      const waitMs = rateLimiter.check(context);
+      if (waitMs > 0) {
+        return { result: errorText(`Rate limited, retry after ${Math.ceil(waitMs / 1000)} s`), status: "rate_limited" };
+      }
+      await usageTracker.recordToolCall(name);
+    }
+
+    try {
+      const result = await definition.handler(validatedArgs);
+      return { result, status: result.isError ? "error" : "ok" };
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return { result: errorText(`Error: ${error instanceof Error ? error.message : String(error)}`), status: "error" };
+    }
+  }
+}
+
+function hasLangProperty(tool: Tool): boolean {
+  return Boolean(tool.inputSchema.properties && "lang" in tool.inputSchema.properties);
+}
+
+/** With a server default language configured, tools no longer require `lang`. */
+function withDefaultLang(tool: Tool): Tool {
+  const required = tool.inputSchema.required as string[] | undefined;
+  if (!DEFAULT_LANG || !required?.includes("lang")) {
+    return tool;
+  }
+  return {
+    ...tool,
+    inputSchema: { ...tool.inputSchema, required: required.filter(name => name !== "lang") }
+  };
+}
+
+function errorText(text: string): CallToolResult {
+  return {
+    content: [{
+      type: "text",
+      text
+    }],
+    isError: true
+  };
+}
+
+export const toolRegistry = new ToolRegistry(BUILTIN_TOOLS);
+
+export function registerTool<TArgs>(definition: ToolDefinition<TArgs>): void {
+  toolRegistry.register(definition);
+}
@@ -0,0 +1,126 @@
+import type { ToolDefinition } from "./tool-registry.js";
+import {
+  GEOCODE_TOOL,
+  GEOCODE_QUERY_TOOL,
+  REVERSE_GEOCODE_TOOL,
+  GEOCODE_BATCH_TOOL,
+  RENDER_MAP_TOOL,
+  GEOMETRY_TOOL,
+  ROUTE_TOOL,
+  DISTANCE_MATRIX_TOOL,
+  SEARCH_PLACES_TOOL,
+  SUGGEST_TOOL,
+  USAGE_TOOL
+} from "./config.js";
+import {
+  DistanceMatrixArgs,
+  GeocodeArgs,
+  GeocodeBatchArgs,
+  GeometryArgs,
+  GeocodeQueryArgs,
+  RenderMapArgs,
+  ReverseGeocodeArgs,
+  RouteArgs,
+  SearchPlacesArgs,
+  SuggestArgs
+} from "./types.js";
+import {
+  handleGeocode,
+  handleGeocodeQuery,
+  handleReverseGeocode,
+  handleGeocodeBatch,
+  handleRenderMap,
+  handleGeometry,
+  handleRoute,
+  handleDistanceMatrix,
+  handleSearchPlaces,
+  handleSuggest,
+  handleUsage
+} from "./handlers.js";
+
+const geocodeTool: ToolDefinition<GeocodeArgs> = {
+  tool: GEOCODE_TOOL,
+  apiKey: "YANDEX_MAPS_API_KEY",
+  handler: ({ country, lang, state, city, district, street, house_number, output_format, ...area }) =>
+    handleGeocode(country, lang, state, city, district, street, house_number, area, output_format)
+};
+
+const geocodeQueryTool: ToolDefinition<GeocodeQueryArgs> = {
+  tool: GEOCODE_QUERY_TOOL,
+  apiKey: "YANDEX_MAPS_API_KEY",
+  handler: ({ query, lang, results, skip, uri, output_format }) =>
+    handleGeocodeQuery(query, lang, results, skip, uri, output_format)
+};
+
+const reverseGeocodeTool: ToolDefinition<ReverseGeocodeArgs> = {
+  tool: REVERSE_GEOCODE_TOOL,
+  apiKey: "YANDEX_MAPS_API_KEY",
+  handler: ({ latitude, longitude, lang, kind, results, output_format, ...area }) =>
+    handleReverseGeocode(latitude, longitude, lang, kind, results, area, output_format)
+};
+
+const geocodeBatchTool: ToolDefinition<GeocodeBatchArgs> = {
+  tool: GEOCODE_BATCH_TOOL,
+  apiKey: "YANDEX_MAPS_API_KEY",
+  handler: ({ lang, addresses, coordinates, concurrency, output_format, ...area }) =>
+    handleGeocodeBatch(lang, addresses, coordinates, concurrency, area, output_format)
+};
+
+const renderMapTool: ToolDefinition<RenderMapArgs> = {
+  tool: RENDER_MAP_TOOL,
+  apiKey: "YANDEX_MAPS_STATIC_API_KEY",
+  handler: ({ latitude, longitude, latitude_span, longitude_span, lang, placemarks, polylines, polygons, ...view }) =>
+    handleRenderMap(latitude, longitude, latitude_span, longitude_span, lang, placemarks, polylines, polygons, view)
+};
+
+const geometryTool: ToolDefinition<GeometryArgs> = {
+  tool: GEOMETRY_TOOL,
+  handler: ({ operation, ...input }) => handleGeometry(operation, input)
+};
+
+const routeTool: ToolDefinition<RouteArgs> = {
+  tool: ROUTE_TOOL,
+  apiKey: "YANDEX_MAPS_ROUTER_API_KEY",
+  handler: ({ origin, destination, waypoints, mode, departure_time }) =>
+    handleRoute(origin, destination, waypoints, mode, departure_time)
+};
+
+// No apiKey: without the router key the tool falls back to straight-line distances
+const distanceMatrixTool: ToolDefinition<DistanceMatrixArgs> = {
+  tool: DISTANCE_MATRIX_TOOL,
+  handler: ({ origins, destinations, mode, method, concurrency }) =>
+    handleDistanceMatrix(origins, destinations, mode, method, concurrency)
+};
+
+const searchPlacesTool: ToolDefinition<SearchPlacesArgs> = {
+  tool: SEARCH_PLACES_TOOL,
+  apiKey: "YANDEX_MAPS_PLACES_API_KEY",
+  handler: ({ lang, text, category, results, ...area }) => handleSearchPlaces(lang, text, category, results, area)
+};
+
+const suggestTool: ToolDefinition<SuggestArgs> = {
+  tool: SUGGEST_TOOL,
+  apiKey: "YANDEX_MAPS_SUGGEST_API_KEY",
+  handler: ({ text, lang, types, results, ...area }) => handleSuggest(text, lang, types, results, area)
+};
+
+// Unmetered, so clients can still check their consumption while rate limited
+const usageTool: ToolDefinition<Record<string, never>> = {
+  tool: USAGE_TOOL,
+  unmetered: true,
+  handler: () => handleUsage()
+};
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  geocodeTool,
+  geocodeQueryTool,
+  reverseGeocodeTool,
+  geocodeBatchTool,
+  renderMapTool,
+  geometryTool,
+  routeTool,
+  distanceMatrixTool,
+  searchPlacesTool,
+  suggestTool,
+  usageTool,
+];
@@ -66,6 +66,287 @@ export interface GeocodeResponse extends YandexMapsResponse {
   };
 }
 
+/** Body the geocoder returns instead of a GeoObjectCollection when it rejects a request. */
+export interface GeocodeErrorResponse {
+  statusCode?: number;
+  error: string;
+  message?: string;
+}
+
+export type GeoObjectCollection = GeocodeResponse["response"]["GeoObjectCollection"];
+
+export type GeoObject = GeoObjectCollection["featureMember"][number]["GeoObject"];
+
+export type AddressComponents = {
+  country: string;
+  state?: string;
+  city?: string;
+  district?: string;
+  street?: string;
+  house_number?: string;
+};
+
+export type SearchArea = {
+  area_latitude?: number;
+  area_longitude?: number;
+  area_latitude_span?: number;
+  area_longitude_span?: number;
+  bbox?: {
+    min_latitude: number;
+    min_longitude: number;
+    max_latitude: number;
+    max_longitude: number;
+  };
+  strict_area?: boolean;
+};
+
+export type SearchPlacesArgs = SearchArea & {
+  text?: string;
+  category?: string;
+  results?: number;
+  lang: string;
+};
+
+export interface PlacesCompanyMetaData {
+  id: string;
+  name: string;
+  address?: string;
+  url?: string;
+  Categories?: Array<{ class?: string; name: string }>;
+  Phones?: Array<{ type?: string; formatted: string }>;
+  Hours?: {
+    text?: string;
+    Availabilities?: unknown[];
+  };
+}
+
+export interface PlacesFeature {
+  geometry: {
+    type: "Point";
+    coordinates: [number, number];
+  };
+  properties: {
+    name: string;
+    description?: string;
+    CompanyMetaData?: PlacesCompanyMetaData;
+  };
+}
+
+/** Body the Places API returns instead of a FeatureCollection when it rejects a search. */
+export interface PlacesErrorResponse {
+  statusCode?: number;
+  error?: string;
+  message?: string;
+}
+
+export interface PlacesResponse {
+  type: "FeatureCollection";
+  properties?: {
+    ResponseMetaData?: {
+      SearchResponse?: { found?: number };
+    };
+  };
+  features: PlacesFeature[];
+}
+
+export type SuggestType = "address" | "business" | "transit";
+
+export type SuggestArgs = SearchArea & {
+  text: string;
+  types?: SuggestType[];
+  results?: number;
+  lang: string;
+};
+
+export interface SuggestText {
+  text: string;
+  hl?: Array<{ begin: number; end: number }>;
+}
+
+export interface SuggestResult {
+  title: SuggestText;
+  subtitle?: SuggestText;
+  tags?: string[];
+  distance?: { value: number; text?: string };
+  address?: { formatted_address?: string };
+  uri?: string;
+}
+
+export interface SuggestResponse {
+  results?: SuggestResult[];
+}
+
+export type ReverseGeocodeKind = "house" | "street" | "metro" | "district" | "locality";
+
+export type GeocodeOutputFormat = "json" | "geojson" | "wkt";
+
+export interface GeoJsonFeature {
+  type: "Feature";
+  geometry: {
+    type: "Point";
+    coordinates: [number, number];
+  } | null;
+  /** [west, south, east, north] */
+  bbox?: [number, number, number, number];
+  properties: Record<string, unknown>;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJsonFeature[];
+  [member: string]: unknown;
+}
+
+export type GeocodeArgs = SearchArea & AddressComponents & {
+  lang: string;
+  output_format?: GeocodeOutputFormat;
+};
+
+export type ReverseGeocodeArgs = SearchArea & {
+  latitude: number;
+  longitude: number;
+  lang: string;
+  kind?: ReverseGeocodeKind;
+  results?: number;
+  output_format?: GeocodeOutputFormat;
+};
+
+export type GeocodeQueryArgs = {
+  query?: string;
+  uri?: string;
+  lang: string;
+  results?: number;
+  skip?: number;
+  output_format?: GeocodeOutputFormat;
+};
+
+export type GeocodeBatchArgs = SearchArea & {
+  lang: string;
+  addresses?: Array<string | AddressComponents>;
+  coordinates?: Array<{ latitude: number, longitude: number }>;
+  concurrency?: number;
+  output_format?: GeocodeOutputFormat;
+};
+
+export type MapShape = {
+  points: Array<{ latitude: number, longitude: number }>;
+  stroke_color?: string;
+  stroke_width?: number;
+  opacity?: number;
+};
+
+export type MapPolygon = MapShape & {
+  fill_color?: string;
+};
+
+export type MapPlacemark = {
+  latitude: number;
+  longitude: number;
+  style?: string;
+  color?: string;
+  size?: "s" | "m" | "l";
+  label?: number | "a" | "b";
+};
+
+export type MapViewOptions = {
+  zoom?: number;
+  padding?: number;
+  layer?: "map" | "satellite" | "hybrid" | "traffic";
+  theme?: "light" | "dark";
+  width?: number;
+  height?: number;
+};
+
+export type RenderMapArgs = MapViewOptions & {
+  latitude?: number;
+  longitude?: number;
+  latitude_span?: number;
+  longitude_span?: number;
+  lang: string;
+  placemarks?: MapPlacemark[];
+  polylines?: MapShape[];
+  polygons?: MapPolygon[];
+};
+
+export type GeometryOperation =
+  "distance" | "distance_matrix" | "bearing" | "midpoint" | "bbox" | "point_in_polygon" | "buffer" | "nearest";
+
+export type GeometryPoint = {
+  latitude: number;
+  longitude: number;
+  [property: string]: unknown;
+};
+
+export type GeometryInput = {
+  from?: GeometryPoint;
+  to?: GeometryPoint;
+  points?: GeometryPoint[];
+  destinations?: GeometryPoint[];
+  polygon?: GeometryPoint[];
+  radius_meters?: number;
+  segments?: number;
+  limit?: number;
+};
+
+export type GeometryArgs = GeometryInput & {
+  operation: GeometryOperation;
+};
+
+export type RouteMode = "driving" | "walking" | "transit" | "truck";
+
+export type RouteArgs = {
+  origin: GeometryPoint;
+  destination: GeometryPoint;
+  waypoints?: GeometryPoint[];
+  mode?: RouteMode;
+  departure_time?: string;
+};
+
+export type DistanceMatrixMethod = "router" | "straight_line";
+
+export type DistanceMatrixArgs = {
+  origins: GeometryPoint[];
+  destinations: GeometryPoint[];
+  mode?: RouteMode;
+  method?: DistanceMatrixMethod;
+  concurrency?: number;
+};
+
+export interface RouterMatrixElement {
+  status: string;
+  distance?: { value: number };
+  duration?: { value: number };
+}
+
+export interface RouterMatrixResponse {
+  rows?: Array<{ elements: RouterMatrixElement[] }>;
+  errors?: string[];
+}
+
+export interface RouterStep {
+  length: number;
+  duration: number;
+  duration_in_traffic?: number;
+  waiting_duration?: number;
+  mode?: string;
+  polyline: {
+    points: Array<[number, number]>;
+  };
+}
+
+export interface RouterLeg {
+  status: string;
+  steps: RouterStep[];
+}
+
+export interface RouterResponse {
+  route?: {
+    legs: RouterLeg[];
+    flags?: Record<string, boolean>;
+  };
+  errors?: string[];
+}
+
 export interface ToolResult {
   content: Array<{
     type: "text" | "image";
@@ -0,0 +1,322 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  ApiKeyName,
+  RATE_LIMIT_SESSION_PER_MINUTE,
+  RATE_LIMIT_CLIENT_PER_MINUTE,
+  RATE_LIMIT_GLOBAL_PER_MINUTE,
+  RATE_LIMIT_UPSTREAM_PER_MINUTE,
+  DAILY_QUOTA_SOFT,
+  DAILY_QUOTA_HARD,
+  USAGE_FILE,
+  USAGE_HISTORY_DAYS
+} from "./config.js";
+import { logger } from "./logger.js";
+
+/** Who is calling a tool; set by the transport that received the call. */
+export interface CallContext {
+  sessionId?: string;
+  clientId?: string;
+}
+
+interface CallState {
+  context: CallContext;
+  upstreamRequests: number;
+}
+
+const callState = new AsyncLocalStorage<CallState>();
+
+/** Runs a tool call with its context available to getCallContext() in everything it calls. */
+export function runWithCallContext<T>(context: CallContext, fn: () => T): T {
+  return callState.run({ context, upstreamRequests: 0 }, fn);
+}
+
+export function getCallContext(): CallContext {
+  return callState.getStore()?.context ?? {};
+}
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens and regains `capacity` tokens
+ * per minute, continuously.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  get idleSince(): number {
+    return this.updatedAt;
+  }
+
+  /** Milliseconds until a token is available, 0 when one is available now. */
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * 60000 / this.capacity);
+  }
+
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.capacity / 60000);
+    this.updatedAt = now;
+  }
+}
+
+export interface RateLimits {
+  session: number;
+  client: number;
+  global: number;
+}
+
+const BUCKET_IDLE_MS = 10 * 60 * 1000;
+
+/**
+ * Per-session, per-client and global request budgets. A limit of 0 disables that
+ * level. A call consumes a token at every level that applies to it.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+  private lastPrune = Date.now();
+
+  constructor(readonly limits: RateLimits) {}
+
+  /** Returns 0 when the call may proceed, otherwise milliseconds to wait. */
+  check(context: CallContext = {}): number {
+    this.prune();
+    const scopes: Array<[string, number]> = [["global", this.limits.global]];
+    if (context.clientId) {
+      scopes.push([`client:${context.clientId}`, this.limits.client]);
+    }
+    if (context.sessionId) {
+      scopes.push([`session:${context.sessionId}`, this.limits.session]);
+    }
+
+    const buckets = scopes
+      .filter(([, limit]) => limit > 0)
+      .map(([key, limit]) => {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+          bucket = new TokenBucket(limit);
+          this.buckets.set(key, bucket);
+        }
+        return bucket;
+      });
+
+    // Only spend tokens when every level allows the call
+    const waitMs = Math.max(0, ...buckets.map(bucket => bucket.waitTime()));
+    if (waitMs === 0) {
+      buckets.forEach(bucket => bucket.take());
+    }
+    return waitMs;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastPrune < BUCKET_IDLE_MS) {
+      return;
+    }
+    this.lastPrune = now;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.idleSince > BUCKET_IDLE_MS) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+interface DailyUsage {
+  api_keys: Record<string, number>;
+  tools: Record<string, number>;
+}
+
+export type QuotaStatus = "ok" | "soft_limit_exceeded" | "exhausted";
+
+const SAVE_DELAY_MS = 1000;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Daily counters of upstream requests per API key and of calls per tool. Days are
+ * UTC dates. With a file configured the counters are saved shortly after every
+ * change and loaded on start, so restarts do not reset the daily quota.
+ */
+export class UsageTracker {
+  private days: Record<string, DailyUsage> = {};
+  private loaded?: Promise<void>;
+  private saveTimer?: NodeJS.Timeout;
+  private softWarnings = new Set<string>();
+
+  constructor(
+    private readonly softLimit: number,
+    private readonly hardLimit: number,
+    private readonly file?: string
+  ) {
+    // A pending debounced save would be lost on exit
+    if (file) {
+      process.once('exit', () => {
+        if (this.saveTimer) {
+          clearTimeout(this.saveTimer);
+          mkdirSync(dirname(file), { recursive: true });
+          writeFileSync(file, this.serialize());
+        }
+      });
+    }
+  }
+
+  load(): Promise<void> {
+    this.loaded ??= (async () => {
+      if (!this.file) {
+        return;
+      }
+      try {
+        const stored = JSON.parse(await readFile(this.file, 'utf8')) as Record<string, DailyUsage>;
+        // Counts recorded before the file was read are added on top
+        for (const [day, usage] of Object.entries(stored)) {
+          const current = this.day(day);
+          for (const section of ["api_keys", "tools"] as const) {
+            for (const [name, count] of Object.entries(usage[section] ?? {})) {
+              current[section][name] = (current[section][name] ?? 0) + count;
+            }
+          }
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.error("Failed to read usage file", { file: this.file, error });
+        }
+      }
+    })();
+    return this.loaded;
+  }
+
+  /**
+   * Counts one upstream request made with the key. Returns false without counting
+   * when the hard daily quota of the key is already used up.
+   */
+  async recordUpstream(apiKey: ApiKeyName): Promise<boolean> {
+    await this.load();
+    const usage = this.day(today());
+    const used = usage.api_keys[apiKey] ?? 0;
+    if (this.hardLimit > 0 && used >= this.hardLimit) {
+      return false;
+    }
+
+    usage.api_keys[apiKey] = used + 1;
+    if (this.softLimit > 0 && used + 1 >= this.softLimit && !this.softWarnings.has(`${today()}:${apiKey}`)) {
+      this.softWarnings.add(`${today()}:${apiKey}`);
+      logger.warn("Soft daily quota reached", { api_key: apiKey, used: used + 1, soft_limit: this.softLimit });
+    }
+    this.scheduleSave();
+    return true;
+  }
+
+  async recordToolCall(tool: string): Promise<void> {
+    await this.load();
+    const usage = this.day(today());
+    usage.tools[tool] = (usage.tools[tool] ?? 0) + 1;
+    this.scheduleSave();
+  }
+
+  quotaStatus(used: number): QuotaStatus {
+    if (this.hardLimit > 0 && used >= this.hardLimit) {
+      return "exhausted";
+    }
+    return this.softLimit > 0 && used >= this.softLimit ? "soft_limit_exceeded" : "ok";
+  }
+
+  async snapshot() {
+    await this.load();
+    const date = today();
+    const usage = this.day(date);
+    return {
+      date,
+      soft_limit: this.softLimit || null,
+      hard_limit: this.hardLimit || null,
+      api_keys: Object.fromEntries(Object.entries(usage.api_keys).map(([name, used]) => [name, {
+        used,
+        remaining: this.hardLimit > 0 ? Math.max(0, this.hardLimit - used) : null,
+        status: this.quotaStatus(used)
+      }])),
+      tools: { ...usage.tools }
+    };
+  }
+
+  private day(date: string): DailyUsage {
+    this.days[date] ??= { api_keys: {}, tools: {} };
+    return this.days[date];
+  }
+
+  private scheduleSave(): void {
+    if (!this.file || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save().catch(error => logger.error("Failed to write usage file", { file: this.file, error }));
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    const file = this.file as string;
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, this.serialize());
+  }
+
+  private serialize(): string {
+    const kept = Object.keys(this.days).sort().slice(-USAGE_HISTORY_DAYS);
+    this.days = Object.fromEntries(kept.map(day => [day, this.days[day]]));
+    return JSON.stringify(this.days, null, 2);
+  }
+}
+
+export const rateLimiter = new RateLimiter({
+  session: RATE_LIMIT_SESSION_PER_MINUTE,
+  client: RATE_LIMIT_CLIENT_PER_MINUTE,
+  global: RATE_LIMIT_GLOBAL_PER_MINUTE
+});
+
+/**
+ * Budget for the Yandex requests of tool calls beyond their first. It is separate from
+ * the call limits and much larger, so that one maps_geocode_batch call with hundreds
+ * of items fits in it; the daily quota is the server-wide ceiling.
+ */
+export const upstreamRateLimiter = new RateLimiter({
+  session: RATE_LIMIT_UPSTREAM_PER_MINUTE,
+  client: RATE_LIMIT_UPSTREAM_PER_MINUTE,
+  global: 0
+});
+
+/**
+ * Charges an upstream request to the tool call making it. The call already paid for
+ * its first request when it was admitted; every further one, such as the items of a
+ * batch, matrix chunks or retries, takes a token from upstreamRateLimiter. Returns 0
+ * when the request may proceed, otherwise milliseconds to wait.
+ */
+export function checkUpstreamRateLimit(): number {
+  const state = callState.getStore();
+  if (!state || ++state.upstreamRequests === 1) {
+    return 0;
+  }
+  return upstreamRateLimiter.check(state.context);
+}
+
+export const usageTracker = new UsageTracker(DAILY_QUOTA_SOFT, DAILY_QUOTA_HARD, USAGE_FILE);
+
+/** Today's consumption and the configured limits, as reported by maps_usage and /admin/usage. */
+export async function getUsageReport() {
+  return {
+    ...await usageTracker.snapshot(),
+    rate_limits_per_minute: { ...rateLimiter.limits, upstream: RATE_LIMIT_UPSTREAM_PER_MINUTE }
+  };
+}
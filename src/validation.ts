@@ -0,0 +1,193 @@
+import { ErrorCode, McpError, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { SUPPORTED_LANGUAGES, MAX_PLACEMARKS, MAX_SHAPES, PLACEMARK_COLORED_STYLES } from "./config.js";
+
+interface JsonSchema {
+  type?: string;
+  enum?: unknown[];
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function checkPlacemarkStyle(placemark: Record<string, unknown>, field: string, issues: ValidationIssue[]): void {
+  const style = (placemark.style as string | undefined) ?? "pm2";
+  if (!PLACEMARK_COLORED_STYLES.includes(style)) {
+    for (const option of ["color", "size", "label"]) {
+      if (placemark[option] !== undefined) {
+        issues.push({ field: `${field}.${option}`, message: `is not supported by placemark style ${style}` });
+      }
+    }
+    return;
+  }
+  if (style !== "pm" && placemark.size === "s") {
+    issues.push({ field: `${field}.size`, message: `s is only supported by placemark style pm` });
+  }
+  if (style !== "pm2" && typeof placemark.label === "string") {
+    issues.push({ field: `${field}.label`, message: `letters are only supported by placemark style pm2` });
+  }
+}
+
+/**
+ * Checks that depend on what a field means rather than on its JSON type. They are
+ * keyed by property name, so nested fields such as bbox.min_latitude are covered too.
+ */
+function checkDomain(name: string, value: unknown, field: string, issues: ValidationIssue[]): void {
+  if (typeof value === "number") {
+    if (/latitude$/.test(name) && (value < -90 || value > 90)) {
+      issues.push({ field, message: "must be between -90 and 90" });
+    } else if (/longitude$/.test(name) && (value < -180 || value > 180)) {
+      issues.push({ field, message: "must be between -180 and 180" });
+    } else if (/_span$/.test(name) && value <= 0) {
+      issues.push({ field, message: "must be a positive number of degrees" });
+    }
+  }
+
+  if (name === "lang" && typeof value === "string" && !SUPPORTED_LANGUAGES.includes(value)) {
+    issues.push({ field, message: `must be one of ${SUPPORTED_LANGUAGES.join(", ")}` });
+  }
+
+  if (name === "placemarks" && Array.isArray(value)) {
+    if (value.length > MAX_PLACEMARKS) {
+      issues.push({ field, message: `must contain at most ${MAX_PLACEMARKS} placemarks` });
+    }
+    value.forEach((placemark, index) => checkPlacemarkStyle(placemark, `${field}[${index}]`, issues));
+  }
+
+  if ((name === "polylines" || name === "polygons") && Array.isArray(value) && value.length > MAX_SHAPES) {
+    issues.push({ field, message: `must contain at most ${MAX_SHAPES} shapes` });
+  }
+}
+
+function validateValue(schema: JsonSchema, value: unknown, field: string, issues: ValidationIssue[]): void {
+  if (schema.oneOf) {
+    const matches = schema.oneOf.some(option => {
+      const optionIssues: ValidationIssue[] = [];
+      validateValue(option, value, field, optionIssues);
+      return optionIssues.length === 0;
+    });
+    if (!matches) {
+      issues.push({ field, message: `must be one of ${schema.oneOf.map(option => option.type).join(" or ")}` });
+    }
+    return;
+  }
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    issues.push({ field, message: `must be ${schema.type}, got ${describeType(value)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ field, message: `must be one of ${schema.enum.join(", ")}` });
+  }
+
+  if (typeof value === "string" && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    issues.push({ field, message: `must match ${schema.pattern}` });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ field, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ field, message: `must be at most ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ field, message: `must be greater than ${schema.exclusiveMinimum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ field, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ field, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(schema.items as JsonSchema, item, `${field}[${index}]`, issues));
+    }
+  }
+
+  if (schema.properties && matchesType("object", value)) {
+    validateObject(schema, value as Record<string, unknown>, `${field}.`, issues);
+  }
+}
+
+function validateObject(schema: JsonSchema, value: Record<string, unknown>, prefix: string, issues: ValidationIssue[]): void {
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined || value[name] === null) {
+      issues.push({ field: `${prefix}${name}`, message: "is required" });
+    }
+  }
+
+  for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+    const propertyValue = value[name];
+    if (propertyValue === undefined) {
+      continue;
+    }
+    const issueCount = issues.length;
+    validateValue(propertySchema, propertyValue, `${prefix}${name}`, issues);
+    if (issues.length === issueCount) {
+      checkDomain(name, propertyValue, `${prefix}${name}`, issues);
+    }
+  }
+}
+
+/**
+ * Validates tool call arguments against the tool's inputSchema and the domain rules
+ * above. Throws an InvalidParams McpError listing every offending field.
+ */
+export function validateToolArguments(tool: Tool, args: unknown): Record<string, unknown> {
+  const value = args ?? {};
+  const issues: ValidationIssue[] = [];
+
+  if (!matchesType("object", value)) {
+    issues.push({ field: "arguments", message: `must be object, got ${describeType(value)}` });
+  } else {
+    validateObject(tool.inputSchema as JsonSchema, value as Record<string, unknown>, "", issues);
+  }
+
+  if (issues.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for tool ${tool.name}: ${issues.map(issue => `${issue.field} ${issue.message}`).join("; ")}`,
+      { issues }
+    );
+  }
+
+  return value as Record<string, unknown>;
+}
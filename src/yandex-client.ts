@@ -0,0 +1,217 @@
+import fetch, { Response } from "node-fetch";
+import { URL } from "node:url";
+import {
+  UPSTREAM_TIMEOUT_MS,
+  UPSTREAM_MAX_RETRIES,
+  UPSTREAM_RETRY_BASE_DELAY_MS,
+  UPSTREAM_RETRY_MAX_DELAY_MS,
+  READY_PROBE_TIMEOUT_MS,
+  READY_PROBE_INTERVAL_MS,
+  findApiKeyName
+} from "./config.js";
+import { checkUpstreamRateLimit, usageTracker } from "./usage.js";
+import { logger } from "./logger.js";
+import { upstreamRequestDuration, upstreamRequestsTotal } from "./metrics.js";
+
+export class YandexApiError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class InvalidApiKeyError extends YandexApiError {}
+
+export class QuotaExceededError extends YandexApiError {
+  constructor(message: string, status?: number, readonly retryAfterMs?: number) {
+    super(message, status);
+  }
+}
+
+/** The daily quota configured for this server is used up; raised without calling Yandex. */
+export class DailyQuotaExhaustedError extends QuotaExceededError {}
+
+/** A rate limit of this server is used up by the tool call's earlier requests; raised without calling Yandex. */
+export class RateLimitedError extends QuotaExceededError {}
+
+export class BadRequestError extends YandexApiError {}
+
+export class UpstreamUnavailableError extends YandexApiError {}
+
+export interface YandexRequestOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, UPSTREAM_RETRY_MAX_DELAY_MS);
+  }
+  const exponential = Math.min(UPSTREAM_RETRY_BASE_DELAY_MS * 2 ** attempt, UPSTREAM_RETRY_MAX_DELAY_MS);
+  return exponential / 2 + Math.random() * exponential / 2;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const data = JSON.parse(text);
+    return data.message || data.error || text;
+  } catch {
+    return text || response.statusText;
+  }
+}
+
+async function toApiError(response: Response): Promise<YandexApiError> {
+  const status = response.status;
+  const message = await readErrorMessage(response);
+
+  if (status === 429) {
+    return new QuotaExceededError(
+      `Yandex API quota exceeded (${status}): ${message}`,
+      status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  if (status === 401 || status === 403) {
+    return new InvalidApiKeyError(`Yandex API key was rejected (${status}): ${message}`, status);
+  }
+  if (status >= 500) {
+    return new UpstreamUnavailableError(`Yandex API is unavailable (${status}): ${message}`, status);
+  }
+  return new BadRequestError(`Yandex API rejected the request (${status}): ${message}`, status);
+}
+
+function isRetryable(error: YandexApiError): boolean {
+  return error instanceof UpstreamUnavailableError || error instanceof QuotaExceededError;
+}
+
+/**
+ * Fetches a URL and reads the whole body before the timeout is cleared, so an
+ * upstream that stalls after sending headers still times out. Returns a response
+ * whose body is already buffered.
+ */
+async function fetchOnce(url: URL, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const started = performance.now();
+  let status = "network_error";
+
+  try {
+    const response = await fetch(url.toString(), { signal: controller.signal });
+    const body = Buffer.from(await response.arrayBuffer());
+    status = String(response.status);
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      status = "timeout";
+      throw new UpstreamUnavailableError(`Yandex API did not respond within ${timeoutMs} ms`);
+    }
+    // node-fetch puts the full request URL into its messages, which includes the API key
+    const message = (error instanceof Error ? error.message : String(error)).replace(/apikey=[^&\s]*/g, 'apikey=***');
+    throw new UpstreamUnavailableError(`Yandex API request failed: ${message}`);
+  } finally {
+    clearTimeout(timer);
+    const seconds = (performance.now() - started) / 1000;
+    upstreamRequestsTotal.inc({ host: url.host, status });
+    upstreamRequestDuration.observe({ host: url.host }, seconds);
+    logger.debug("Upstream request", { host: url.host, path: url.pathname, status, duration_ms: Math.round(seconds * 1000) });
+  }
+}
+
+/**
+ * Performs a GET request against a Yandex Maps endpoint. Network failures, timeouts,
+ * 5xx and 429 responses are retried with exponential backoff; any other non-2xx
+ * status is turned into a typed YandexApiError.
+ */
+export async function requestYandex(url: URL, options: YandexRequestOptions = {}): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? UPSTREAM_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? UPSTREAM_MAX_RETRIES;
+
+  const apiKey = url.searchParams.get('apikey');
+  const apiKeyName = apiKey ? findApiKeyName(apiKey) : undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    // Retries are requests too, so every attempt counts against the limits
+    const waitMs = checkUpstreamRateLimit();
+    if (waitMs > 0) {
+      throw new RateLimitedError(`Rate limited, retry after ${Math.ceil(waitMs / 1000)} s`, undefined, waitMs);
+    }
+    if (apiKeyName && !await usageTracker.recordUpstream(apiKeyName)) {
+      throw new DailyQuotaExhaustedError(`Daily quota for ${apiKeyName} is exhausted, it resets at 00:00 UTC`);
+    }
+
+    let error: YandexApiError;
+    try {
+      const response = await fetchOnce(url, timeoutMs);
+      if (response.ok) {
+        return response;
+      }
+      error = await toApiError(response);
+    } catch (fetchError) {
+      if (!(fetchError instanceof YandexApiError)) {
+        throw fetchError;
+      }
+      error = fetchError;
+    }
+
+    if (attempt >= maxRetries || !isRetryable(error)) {
+      throw error;
+    }
+
+    const retryAfterMs = error instanceof QuotaExceededError ? error.retryAfterMs : undefined;
+    await sleep(backoffDelay(attempt, retryAfterMs));
+  }
+}
+
+const probeResults = new Map<string, { checkedAt: number, error?: string }>();
+
+/**
+ * Checks that an endpoint answers HTTP requests at all. No API key is sent, so the
+ * probe costs no quota; any response, including an error status, counts as
+ * reachable. Results are reused for READY_PROBE_INTERVAL_MS.
+ */
+export async function probeUpstream(baseUrl: string): Promise<string | undefined> {
+  const cached = probeResults.get(baseUrl);
+  if (cached && Date.now() - cached.checkedAt < READY_PROBE_INTERVAL_MS) {
+    return cached.error;
+  }
+
+  let error: string | undefined;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), READY_PROBE_TIMEOUT_MS);
+  try {
+    const response = await fetch(baseUrl, { method: 'HEAD', signal: controller.signal });
+    await response.arrayBuffer().catch(() => undefined);
+  } catch (probeError) {
+    error = controller.signal.aborted
+      ? `no response within ${READY_PROBE_TIMEOUT_MS} ms`
+      : probeError instanceof Error ? probeError.message : String(probeError);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  probeResults.set(baseUrl, { checkedAt: Date.now(), error });
+  return error;
+}
@@ -0,0 +1,199 @@
+import assert from "node:assert/strict";
+import { generateKeyPairSync, KeyObject, sign } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { IncomingMessage } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { AuthError, HttpAuth, JwtAuthenticator, JwtOptions, StaticTokenAuthenticator } from "../src/auth.js";
+
+const ecKey = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+const otherEcKey = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+const rsaKey = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const SIGNERS: Record<string, { hash: string, dsaEncoding?: "ieee-p1363" }> = {
+  ES256: { hash: "sha256", dsaEncoding: "ieee-p1363" },
+  ES384: { hash: "sha384", dsaEncoding: "ieee-p1363" },
+  RS256: { hash: "sha256" },
+};
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+function createJwt(claims: object, options: { alg?: string, kid?: string, key?: KeyObject } = {}): string {
+  const alg = options.alg ?? "ES256";
+  const signer = SIGNERS[alg];
+  const signed = `${encode({ alg, kid: options.kid ?? "ec", typ: "JWT" })}.${encode(claims)}`;
+  const signature = sign(signer.hash, Buffer.from(signed), { key: options.key ?? ecKey.privateKey, dsaEncoding: signer.dsaEncoding });
+  return `${signed}.${signature.toString("base64url")}`;
+}
+
+function jwk(key: KeyObject, kid: string, alg?: string) {
+  return { ...key.export({ format: "jwk" }), kid, alg, use: "sig" };
+}
+
+function assertAuthError(status: 401 | 403, message: string | RegExp) {
+  return (error: unknown) => {
+    assert.ok(error instanceof AuthError);
+    assert.equal(error.status, status);
+    if (typeof message === "string") {
+      assert.equal(error.message, message);
+    } else {
+      assert.match(error.message, message);
+    }
+    return true;
+  };
+}
+
+function request(authorization?: string): IncomingMessage {
+  return { headers: authorization ? { authorization } : {} } as IncomingMessage;
+}
+
+describe("JwtAuthenticator", () => {
+  let directory: string;
+  let jwksFile: string;
+  const authenticator = (options: Partial<JwtOptions> = {}) => new JwtAuthenticator({ jwksFile, ...options });
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "yandex-maps-auth-"));
+    jwksFile = join(directory, "jwks.json");
+    await writeFile(jwksFile, JSON.stringify({ keys: [jwk(ecKey.publicKey, "ec", "ES256"), jwk(rsaKey.publicKey, "rsa")] }));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("accepts a valid token and identifies the client", async () => {
+    const context = await authenticator().authenticate(createJwt({ sub: "user", client_id: "app", exp: inOneHour() }));
+    assert.deepEqual(context, { clientId: "jwt:app", method: "jwt" });
+
+    const rsaContext = await authenticator().authenticate(createJwt({ sub: "user", exp: inOneHour() }, { alg: "RS256", kid: "rsa", key: rsaKey.privateKey }));
+    assert.deepEqual(rsaContext, { clientId: "jwt:user", method: "jwt" });
+  });
+
+  it("leaves tokens that are not JWTs to other authenticators", async () => {
+    assert.equal(await authenticator().authenticate("opaque-token"), undefined);
+  });
+
+  it("rejects a signature made with another key", async () => {
+    const token = createJwt({ exp: inOneHour() }, { key: otherEcKey.privateKey });
+    await assert.rejects(authenticator().authenticate(token), assertAuthError(401, "Invalid JWT signature"));
+  });
+
+  it("rejects tampered claims", async () => {
+    const [header, , signature] = createJwt({ sub: "user", exp: inOneHour() }).split(".");
+    const token = `${header}.${encode({ sub: "admin", exp: inOneHour() })}.${signature}`;
+    await assert.rejects(authenticator().authenticate(token), assertAuthError(401, "Invalid JWT signature"));
+  });
+
+  it("rejects algorithms that do not match the key", async () => {
+    const rsaWithEcKid = createJwt({ exp: inOneHour() }, { alg: "RS256", kid: "ec", key: rsaKey.privateKey });
+    await assert.rejects(authenticator().authenticate(rsaWithEcKid), assertAuthError(401, "JWT algorithm RS256 does not match key ec"));
+
+    const wrongCurve = createJwt({ exp: inOneHour() }, { alg: "ES384", kid: "ec" });
+    await assert.rejects(authenticator().authenticate(wrongCurve), assertAuthError(401, "JWT algorithm ES384 does not match key ec"));
+
+    const none = `${encode({ alg: "none", kid: "ec" })}.${encode({ exp: inOneHour() })}.`;
+    await assert.rejects(authenticator().authenticate(none), assertAuthError(401, "Unsupported JWT algorithm none"));
+  });
+
+  it("requires an expiry in the future and honours nbf", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await assert.rejects(authenticator().authenticate(createJwt({ sub: "user" })), assertAuthError(401, "JWT has no expiry"));
+    await assert.rejects(authenticator().authenticate(createJwt({ exp: now - 3600 })), assertAuthError(401, "JWT has expired"));
+    await assert.rejects(
+      authenticator().authenticate(createJwt({ exp: now + 7200, nbf: now + 3600 })),
+      assertAuthError(401, "JWT is not valid yet")
+    );
+  });
+
+  it("checks the issuer and audience", async () => {
+    const strict = authenticator({ issuer: "https://issuer.example", audience: "maps" });
+    await assert.rejects(
+      strict.authenticate(createJwt({ iss: "https://other.example", aud: "maps", exp: inOneHour() })),
+      assertAuthError(401, "JWT issuer is not accepted")
+    );
+    await assert.rejects(
+      strict.authenticate(createJwt({ iss: "https://issuer.example", aud: ["billing"], exp: inOneHour() })),
+      assertAuthError(401, "JWT audience is not accepted")
+    );
+    assert.ok(await strict.authenticate(createJwt({ iss: "https://issuer.example", aud: ["billing", "maps"], exp: inOneHour() })));
+  });
+
+  it("accepts the required scope from scope and from scp in either form", async () => {
+    const scoped = authenticator({ requiredScope: "maps" });
+    for (const claims of [{ scope: "read maps" }, { scp: "read maps" }, { scp: ["read", "maps"] }]) {
+      assert.ok(await scoped.authenticate(createJwt({ ...claims, exp: inOneHour() })));
+    }
+    await assert.rejects(
+      scoped.authenticate(createJwt({ scp: "read", exp: inOneHour() })),
+      assertAuthError(403, "JWT lacks the maps scope")
+    );
+  });
+
+  it("reloads the key set for unknown key ids at most once per interval", async (t) => {
+    const rotatingFile = join(directory, "rotating.json");
+    await writeFile(rotatingFile, JSON.stringify({ keys: [jwk(ecKey.publicKey, "ec")] }));
+    let now = Date.now();
+    t.mock.method(Date, "now", () => now);
+    const rotating = new JwtAuthenticator({ jwksFile: rotatingFile, reloadIntervalMs: 30000 });
+    assert.ok(await rotating.authenticate(createJwt({ exp: inOneHour() })));
+
+    await writeFile(rotatingFile, JSON.stringify({ keys: [jwk(ecKey.publicKey, "ec"), jwk(otherEcKey.publicKey, "new")] }));
+    const rotated = createJwt({ exp: inOneHour() }, { kid: "new", key: otherEcKey.privateKey });
+    now += 1000;
+    await assert.rejects(rotating.authenticate(rotated), assertAuthError(401, "Unknown JWT key new"));
+
+    now += 30000;
+    assert.ok(await rotating.authenticate(rotated));
+  });
+
+  it("answers 401 when the key set cannot be loaded", async () => {
+    const missing = new JwtAuthenticator({ jwksFile: join(directory, "missing.json") });
+    await assert.rejects(missing.authenticate(createJwt({ exp: inOneHour() })), assertAuthError(401, "JWT signing keys are not available"));
+  });
+});
+
+describe("StaticTokenAuthenticator", () => {
+  const authenticator = new StaticTokenAuthenticator(["ci:ci-secret", "anonymous-secret"]);
+
+  it("identifies named tokens by their client name", async () => {
+    assert.deepEqual(await authenticator.authenticate("ci-secret"), { clientId: "token:ci", method: "token" });
+  });
+
+  it("identifies unnamed tokens by a hash prefix", async () => {
+    const context = await authenticator.authenticate("anonymous-secret");
+    assert.match(context?.clientId ?? "", /^token:sha256-[0-9a-f]{8}$/);
+  });
+
+  it("does not recognize other tokens", async () => {
+    assert.equal(await authenticator.authenticate("ci"), undefined);
+  });
+});
+
+describe("HttpAuth", () => {
+  const auth = new HttpAuth([new StaticTokenAuthenticator(["ci:ci-secret"])]);
+
+  it("accepts every caller while no authenticator is configured", async () => {
+    assert.equal(await new HttpAuth().authenticate(request()), undefined);
+  });
+
+  it("requires a bearer token", async () => {
+    await assert.rejects(auth.authenticate(request()), assertAuthError(401, "Bearer token is required"));
+    await assert.rejects(auth.authenticate(request("Basic Y2k6Y2k=")), assertAuthError(401, "Bearer token is required"));
+  });
+
+  it("rejects tokens no authenticator recognizes", async () => {
+    await assert.rejects(auth.authenticate(request("Bearer wrong")), assertAuthError(401, "Bearer token is not valid"));
+    assert.deepEqual(await auth.authenticate(request("Bearer ci-secret")), { clientId: "token:ci", method: "token" });
+  });
+
+  it("allows only loopback origins unless origins are configured", () => {
+    assert.equal(auth.isOriginAllowed("http://localhost:5173"), true);
+    assert.equal(auth.isOriginAllowed("https://evil.example"), false);
+    const configured = new HttpAuth([], ["https://app.example"]);
+    assert.equal(configured.isOriginAllowed("https://app.example"), true);
+    assert.equal(configured.isOriginAllowed("http://localhost:5173"), false);
+  });
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { ResponseCache, cacheKeyFromUrl } from "../src/cache.js";
+
+describe("ResponseCache", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "yandex-maps-cache-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("expires entries after their TTL", async (t) => {
+    let now = 1_000_000;
+    t.mock.method(Date, "now", () => now);
+    const cache = new ResponseCache<string>("ttl", 10, 1000);
+
+    await cache.set("key", "value");
+    now += 999;
+    assert.equal(await cache.get("key"), "value");
+    now += 1;
+    assert.equal(await cache.get("key"), undefined);
+    assert.deepEqual(cache.stats(), { hits: 1, misses: 1, size: 0, maxEntries: 10 });
+  });
+
+  it("evicts the least recently used entry when full", async () => {
+    const cache = new ResponseCache<string>("lru", 2, 60000);
+    await cache.set("a", "1");
+    await cache.set("b", "2");
+    await cache.get("a");
+    await cache.set("c", "3");
+
+    assert.equal(await cache.get("b"), undefined);
+    assert.equal(await cache.get("a"), "1");
+    assert.equal(await cache.get("c"), "3");
+  });
+
+  it("stores nothing when disabled", async () => {
+    const cache = new ResponseCache<string>("disabled", 0, 60000);
+    await cache.set("key", "value");
+    assert.equal(cache.enabled, false);
+    assert.equal(await cache.get("key"), undefined);
+  });
+
+  it("reads entries written to disk by an earlier instance", async () => {
+    await new ResponseCache<string>("disk", 10, 60000, directory).set("key", "value");
+    const restarted = new ResponseCache<string>("disk", 10, 60000, directory);
+    assert.equal(await restarted.get("key"), "value");
+  });
+
+  it("removes expired entries from disk", async (t) => {
+    let now = 1_000_000;
+    t.mock.method(Date, "now", () => now);
+    await new ResponseCache<string>("expired", 10, 1000, directory).set("key", "value");
+
+    now += 1000;
+    const restarted = new ResponseCache<string>("expired", 10, 1000, directory);
+    assert.equal(await restarted.get("key"), undefined);
+    assert.deepEqual(await readdir(join(directory, "expired")), []);
+  });
+});
+
+describe("cacheKeyFromUrl", () => {
+  const key = (query: string) => cacheKeyFromUrl(new URL(`https://geocode-maps.yandex.ru/1.x/?${query}`));
+
+  it("drops the API key and sorts parameters", () => {
+    assert.equal(key("lang=en_US&apikey=secret&format=json"), "format=json&lang=en_US");
+  });
+
+  it("rounds coordinates to 6 decimal digits", () => {
+    assert.equal(key("ll=37.61755612,55.75582611"), key("ll=37.617556,55.755826"));
+  });
+
+  it("ignores the case and surrounding spaces of free-text queries", () => {
+    assert.equal(key("geocode= Moscow, Tverskaya 7 "), key("geocode=moscow, tverskaya 7"));
+    assert.equal(key("text=Cafe"), key("text=cafe"));
+  });
+
+  it("keeps other parameters verbatim", () => {
+    assert.notEqual(key("uri=ymapsbm1://geo?data=Cgg1NjY4NzA5NBI"), key("uri=ymapsbm1://geo?data=cgg1njy4nza5nbi"));
+    assert.equal(key("uri=ymapsbm1://org?oid=1.123456789"), "uri=ymapsbm1://org?oid=1.123456789");
+    assert.notEqual(key("lang=en_US"), key("lang=en_us"));
+  });
+});
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  boundingBox,
+  bufferPoint,
+  compassDirection,
+  distance,
+  fitViewport,
+  initialBearing,
+  longitudeSpan,
+  midpoint,
+  normalizeLongitude,
+  pointInPolygon,
+  simplifyPath
+} from "../src/geometry.js";
+
+const point = (latitude: number, longitude: number) => ({ latitude, longitude });
+
+function assertClose(actual: number, expected: number, tolerance = 1e-9): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`);
+}
+
+describe("simplifyPath", () => {
+  it("drops points that lie on the simplified line", () => {
+    const path = [point(0, 0), point(0, 1), point(0, 2), point(0, 3)];
+    assert.deepEqual(simplifyPath(path, 0.001), [point(0, 0), point(0, 3)]);
+  });
+
+  it("keeps only points farther than the tolerance", () => {
+    const path = [point(0, 0), point(0.001, 1), point(0, 2)];
+    assert.deepEqual(simplifyPath(path, 0.01), [point(0, 0), point(0, 2)]);
+    assert.deepEqual(simplifyPath(path, 0.0001), path);
+  });
+
+  it("keeps a spike and the points that shape it", () => {
+    const path = [point(0, 0), point(0, 1), point(0, 2), point(1, 3), point(0, 4), point(0, 5), point(0, 6)];
+    assert.deepEqual(simplifyPath(path, 0.01), [point(0, 0), point(0, 2), point(1, 3), point(0, 4), point(0, 6)]);
+  });
+
+  it("returns short paths and zero tolerance unchanged", () => {
+    const short = [point(0, 0), point(5, 5)];
+    const path = [point(0, 0), point(0, 1), point(0, 2)];
+    assert.equal(simplifyPath(short, 1), short);
+    assert.equal(simplifyPath(path, 0), path);
+  });
+});
+
+describe("normalizeLongitude", () => {
+  it("wraps longitudes into -180..180", () => {
+    assert.equal(normalizeLongitude(190), -170);
+    assert.equal(normalizeLongitude(-190), 170);
+    assert.equal(normalizeLongitude(540), 180);
+    assert.equal(normalizeLongitude(180), 180);
+    assert.equal(normalizeLongitude(-180), -180);
+  });
+});
+
+describe("boundingBox", () => {
+  it("covers points on one side of the antimeridian normally", () => {
+    assert.deepEqual(boundingBox([point(55, 37), point(60, 30)]), {
+      min_latitude: 55,
+      max_latitude: 60,
+      min_longitude: 30,
+      max_longitude: 37
+    });
+  });
+
+  it("crosses the antimeridian instead of spanning the whole world", () => {
+    const box = boundingBox([point(60, 170), point(65, -170), point(62, 179)]);
+    assert.equal(box.min_longitude, 170);
+    assert.equal(box.max_longitude, -170);
+    assert.equal(longitudeSpan(box), 20);
+  });
+
+  it("rejects an empty list", () => {
+    assert.throws(() => boundingBox([]), /no points/);
+  });
+});
+
+describe("fitViewport", () => {
+  it("centers on the antimeridian for points around it", () => {
+    const viewport = fitViewport([point(0, 170), point(10, -170)], 0.1, 0.005);
+    assert.equal(viewport.latitude, 5);
+    assert.equal(Math.abs(viewport.longitude), 180);
+    assertClose(viewport.longitude_span, 24);
+    assertClose(viewport.latitude_span, 12);
+  });
+
+  it("applies the minimum span to a single point", () => {
+    const viewport = fitViewport([point(55.75, 37.62)], 0.1, 0.005);
+    assert.equal(viewport.latitude, 55.75);
+    assertClose(viewport.longitude, 37.62);
+    assert.equal(viewport.latitude_span, 0.005);
+    assert.equal(viewport.longitude_span, 0.005);
+  });
+});
+
+describe("great-circle calculations", () => {
+  it("measures one degree along a meridian", () => {
+    assertClose(distance(point(0, 0), point(1, 0)), 111195.08, 0.01);
+  });
+
+  it("measures the short way across the antimeridian", () => {
+    assertClose(distance(point(0, 179.5), point(0, -179.5)), 111195.08, 0.01);
+  });
+
+  it("computes initial bearings and compass directions", () => {
+    assertClose(initialBearing(point(0, 0), point(0, 1)), 90);
+    assertClose(initialBearing(point(0, 0), point(-1, 0)), 180);
+    assert.equal(compassDirection(100), "E");
+    assert.equal(compassDirection(350), "N");
+  });
+
+  it("finds midpoints, also across the antimeridian", () => {
+    const middle = midpoint(point(0, 0), point(0, 90));
+    assertClose(middle.latitude, 0);
+    assertClose(middle.longitude, 45);
+    assertClose(Math.abs(midpoint(point(0, 170), point(0, -170)).longitude), 180);
+  });
+
+  it("places buffer vertices at the radius, starting due north", () => {
+    const center = point(55.75, 37.62);
+    const vertices = bufferPoint(center, 1000, 8);
+    assert.equal(vertices.length, 8);
+    vertices.forEach(vertex => assertClose(distance(center, vertex), 1000, 1e-6));
+    assertClose(vertices[0].longitude, center.longitude);
+    assert.ok(vertices[0].latitude > center.latitude);
+  });
+});
+
+describe("pointInPolygon", () => {
+  const square = [point(0, 0), point(0, 10), point(10, 10), point(10, 0)];
+
+  it("tells points inside from points outside", () => {
+    assert.equal(pointInPolygon(point(5, 5), square), true);
+    assert.equal(pointInPolygon(point(5, 15), square), false);
+    assert.equal(pointInPolygon(point(-1, 5), square), false);
+  });
+
+  it("handles polygons crossing the antimeridian", () => {
+    const polygon = [point(-5, 170), point(-5, -170), point(5, -170), point(5, 170)];
+    assert.equal(pointInPolygon(point(0, 179), polygon), true);
+    assert.equal(pointInPolygon(point(0, -175), polygon), true);
+    assert.equal(pointInPolygon(point(0, 0), polygon), false);
+  });
+});
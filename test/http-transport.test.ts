@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+
+// config.ts reads the environment once, when it is first imported
+process.env.HOST = "127.0.0.1";
+process.env.PORT = "0";
+process.env.YANDEX_MAPS_MAX_SESSIONS = "1";
+process.env.YANDEX_MAPS_LOG_LEVEL = "error";
+const { HttpTransport } = await import("../src/http-transport.js");
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } }
+};
+
+describe("Streamable HTTP sessions", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = await new HttpTransport().runHttpServer();
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  const initialize = (accept: string, body: unknown = INITIALIZE) => fetch(`${baseUrl}/mcp`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: accept },
+    body: JSON.stringify(body)
+  });
+
+  it("does not keep a session for a rejected initialize", async () => {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const response = await initialize("text/plain");
+      assert.equal(response.status, 406);
+      assert.equal(response.headers.get("mcp-session-id"), null);
+    }
+    const invalid = await initialize("application/json", { ...INITIALIZE, jsonrpc: "1.0" });
+    assert.equal(invalid.status, 400);
+
+    const sessions = await (await fetch(`${baseUrl}/admin/sessions`)).json() as { sessions: unknown[] };
+    assert.deepEqual(sessions.sessions, []);
+
+    // The only session slot is still free
+    const response = await initialize("application/json");
+    assert.equal(response.status, 200);
+    assert.ok(response.headers.get("mcp-session-id"));
+  });
+
+  it("serves metrics while authentication is disabled", async () => {
+    const response = await fetch(`${baseUrl}/metrics`);
+    assert.equal(response.status, 200);
+    assert.match(await response.text(), /^# HELP /m);
+  });
+});
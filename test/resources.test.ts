@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ResourceEvent, ResourceStore } from "../src/resources.js";
+
+const place = (text: string) => ({ name: text, mimeType: "application/json", text });
+
+describe("ResourceStore", () => {
+  it("only lists and reads resources for their owner", () => {
+    const store = new ResourceStore({ map: 10, place: 10 });
+    const uri = store.put("place", "Red Square", place("{}"), "session:a");
+
+    assert.deepEqual(store.list("session:a"), [{ uri, name: "{}", mimeType: "application/json" }]);
+    assert.equal(store.get(uri, "session:a")?.text, "{}");
+    assert.deepEqual(store.list("session:b"), []);
+    assert.equal(store.get(uri, "session:b"), undefined);
+  });
+
+  it("drops only the storing owner's oldest entries at the limit", () => {
+    const store = new ResourceStore({ map: 10, place: 2 });
+    const kept = store.put("place", "kept", place("kept"), "client:quiet");
+    const first = store.put("place", "first", place("first"), "client:busy");
+    store.put("place", "second", place("second"), "client:busy");
+    store.put("place", "third", place("third"), "client:busy");
+
+    assert.equal(store.get(first, "client:busy"), undefined);
+    assert.deepEqual(store.list("client:busy").map(resource => resource.name), ["third", "second"]);
+    assert.equal(store.get(kept, "client:quiet")?.text, "kept");
+  });
+
+  it("reports new resources and changed content", () => {
+    const store = new ResourceStore({ map: 10, place: 10 });
+    const events: ResourceEvent[] = [];
+    store.addListener(event => events.push(event));
+
+    const uri = store.put("place", "key", place("old"), "session:a");
+    store.put("place", "key", place("old"), "session:a");
+    store.put("place", "key", place("new"), "session:a");
+    assert.deepEqual(events, [
+      { type: "list_changed", owner: "session:a" },
+      { type: "updated", owner: "session:a", uri }
+    ]);
+  });
+
+  it("forgets every resource of a removed owner", () => {
+    const store = new ResourceStore({ map: 10, place: 10 });
+    const uri = store.put("place", "key", place("{}"), "session:a");
+    store.removeOwner("session:a");
+    assert.equal(store.get(uri, "session:a"), undefined);
+    assert.deepEqual(store.list("session:a"), []);
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { setTimeout } from "node:timers/promises";
+import { RateLimiter, TokenBucket, UsageTracker, checkUpstreamRateLimit, rateLimiter, runWithCallContext, upstreamRateLimiter } from "../src/usage.js";
+
+describe("TokenBucket", () => {
+  it("starts full and refills continuously", (t) => {
+    let now = 1_000_000;
+    t.mock.method(Date, "now", () => now);
+    const bucket = new TokenBucket(60);
+
+    for (let index = 0; index < 60; index++) {
+      assert.equal(bucket.waitTime(), 0);
+      bucket.take();
+    }
+    assert.equal(bucket.waitTime(), 1000);
+
+    now += 500;
+    assert.equal(bucket.waitTime(), 500);
+    now += 500;
+    assert.equal(bucket.waitTime(), 0);
+  });
+
+  it("does not refill beyond its capacity", (t) => {
+    let now = 1_000_000;
+    t.mock.method(Date, "now", () => now);
+    const bucket = new TokenBucket(2);
+    bucket.take();
+
+    now += 10 * 60000;
+    bucket.take();
+    bucket.take();
+    assert.ok(bucket.waitTime() > 0);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("limits sessions and clients separately", () => {
+    const limiter = new RateLimiter({ session: 2, client: 3, global: 0 });
+    const first = { sessionId: "first", clientId: "token:ci" };
+    const second = { sessionId: "second", clientId: "token:ci" };
+
+    assert.equal(limiter.check(first), 0);
+    assert.equal(limiter.check(first), 0);
+    assert.ok(limiter.check(first) > 0, "session limit");
+    assert.equal(limiter.check(second), 0);
+    assert.ok(limiter.check(second) > 0, "client limit");
+  });
+
+  it("only spends tokens when every level allows the call", () => {
+    const limiter = new RateLimiter({ session: 1, client: 2, global: 0 });
+    assert.equal(limiter.check({ sessionId: "first", clientId: "token:ci" }), 0);
+    assert.ok(limiter.check({ sessionId: "first", clientId: "token:ci" }) > 0);
+    assert.equal(limiter.check({ sessionId: "second", clientId: "token:ci" }), 0);
+  });
+
+  it("applies the global limit to calls without a context", () => {
+    const limiter = new RateLimiter({ session: 0, client: 0, global: 1 });
+    assert.equal(limiter.check(), 0);
+    assert.ok(limiter.check({ sessionId: "other" }) > 0);
+  });
+});
+
+describe("checkUpstreamRateLimit", () => {
+  it("lets requests outside a tool call through", () => {
+    assert.equal(checkUpstreamRateLimit(), 0);
+  });
+
+  it("charges every request of a tool call after the first to the upstream budget", () => {
+    runWithCallContext({ sessionId: "batch" }, () => {
+      for (let index = 0; index <= upstreamRateLimiter.limits.session; index++) {
+        assert.equal(checkUpstreamRateLimit(), 0);
+      }
+      assert.ok(checkUpstreamRateLimit() > 0);
+    });
+    // The call limits are left for further tool calls
+    assert.equal(rateLimiter.check({ sessionId: "batch" }), 0);
+  });
+});
+
+describe("UsageTracker", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "yandex-maps-usage-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("stops counting at the hard daily quota", async () => {
+    const tracker = new UsageTracker(2, 3);
+    for (let index = 0; index < 3; index++) {
+      assert.equal(await tracker.recordUpstream("YANDEX_MAPS_API_KEY"), true);
+    }
+    assert.equal(await tracker.recordUpstream("YANDEX_MAPS_API_KEY"), false);
+    assert.equal(await tracker.recordUpstream("YANDEX_MAPS_STATIC_API_KEY"), true);
+
+    const snapshot = await tracker.snapshot();
+    assert.deepEqual(snapshot.api_keys.YANDEX_MAPS_API_KEY, { used: 3, remaining: 0, status: "exhausted" });
+    assert.deepEqual(snapshot.api_keys.YANDEX_MAPS_STATIC_API_KEY, { used: 1, remaining: 2, status: "ok" });
+  });
+
+  it("reports the soft limit without enforcing it", async () => {
+    const tracker = new UsageTracker(1, 0);
+    assert.equal(await tracker.recordUpstream("YANDEX_MAPS_API_KEY"), true);
+    assert.equal(await tracker.recordUpstream("YANDEX_MAPS_API_KEY"), true);
+    const snapshot = await tracker.snapshot();
+    assert.deepEqual(snapshot.api_keys.YANDEX_MAPS_API_KEY, { used: 2, remaining: null, status: "soft_limit_exceeded" });
+  });
+
+  it("counts tool calls", async () => {
+    const tracker = new UsageTracker(0, 0);
+    await tracker.recordToolCall("maps_geocode");
+    await tracker.recordToolCall("maps_geocode");
+    assert.deepEqual((await tracker.snapshot()).tools, { maps_geocode: 2 });
+  });
+
+  it("continues today's count from the usage file and saves it back", async () => {
+    const file = join(directory, "usage.json");
+    const today = new Date().toISOString().slice(0, 10);
+    await writeFile(file, JSON.stringify({ [today]: { api_keys: { YANDEX_MAPS_API_KEY: 4 }, tools: {} } }));
+
+    const tracker = new UsageTracker(0, 5, file);
+    assert.equal(await tracker.recordUpstream("YANDEX_MAPS_API_KEY"), true);
+    assert.equal(await tracker.recordUpstream("YANDEX_MAPS_API_KEY"), false);
+
+    // Saves are debounced by a second
+    await setTimeout(1500);
+    const saved = JSON.parse(await readFile(file, "utf8"));
+    assert.equal(saved[today].api_keys.YANDEX_MAPS_API_KEY, 5);
+  });
+});
@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+// config.ts reads the environment once, when it is first imported
+process.env.YANDEX_MAPS_RATE_LIMIT_UPSTREAM = "2";
+process.env.YANDEX_MAPS_LOG_LEVEL = "error";
+const {
+  BadRequestError,
+  InvalidApiKeyError,
+  QuotaExceededError,
+  RateLimitedError,
+  UpstreamUnavailableError,
+  requestYandex
+} = await import("../src/yandex-client.js");
+const { runWithCallContext } = await import("../src/usage.js");
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+function reply(status: number, body = "{}", headers: Record<string, string> = {}): Handler {
+  return (_req, res) => {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(body);
+  };
+}
+
+describe("requestYandex", () => {
+  const server = createServer((req, res) => {
+    requests.push(req.url ?? "");
+    const handler = handlers.shift() ?? reply(200);
+    handler(req, res);
+  });
+  let handlers: Handler[] = [];
+  let requests: string[] = [];
+  let baseUrl: string;
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  beforeEach(() => {
+    handlers = [];
+    requests = [];
+  });
+
+  it("returns successful responses with their body", async () => {
+    handlers = [reply(200, '{"ok":true}')];
+    const response = await requestYandex(new URL(baseUrl));
+    assert.deepEqual(await response.json(), { ok: true });
+    assert.equal(requests.length, 1);
+  });
+
+  it("retries 5xx responses until one succeeds", async () => {
+    handlers = [reply(503), reply(200, '{"ok":true}')];
+    const response = await requestYandex(new URL(baseUrl), { maxRetries: 1 });
+    assert.equal(response.status, 200);
+    assert.equal(requests.length, 2);
+  });
+
+  it("gives up with UpstreamUnavailableError after the last retry", async () => {
+    handlers = [reply(502), reply(502)];
+    await assert.rejects(requestYandex(new URL(baseUrl), { maxRetries: 1 }), UpstreamUnavailableError);
+    assert.equal(requests.length, 2);
+  });
+
+  it("retries 429 responses after Retry-After and reports QuotaExceededError", async () => {
+    handlers = [reply(429, "{}", { "Retry-After": "0" }), reply(429, "{}", { "Retry-After": "0" })];
+    await assert.rejects(requestYandex(new URL(baseUrl), { maxRetries: 1 }), (error: unknown) => {
+      assert.ok(error instanceof QuotaExceededError);
+      assert.equal(error.status, 429);
+      assert.equal(error.retryAfterMs, 0);
+      return true;
+    });
+    assert.equal(requests.length, 2);
+  });
+
+  it("does not retry rejected API keys", async () => {
+    handlers = [reply(403, '{"message":"Invalid key"}')];
+    await assert.rejects(requestYandex(new URL(baseUrl), { maxRetries: 2 }), (error: unknown) => {
+      assert.ok(error instanceof InvalidApiKeyError);
+      assert.equal(error.status, 403);
+      assert.equal(error.message, "Yandex API key was rejected (403): Invalid key");
+      return true;
+    });
+    assert.equal(requests.length, 1);
+  });
+
+  it("turns other client errors into BadRequestError with the upstream message", async () => {
+    handlers = [reply(400, '{"error":"Bad Request","message":"Parameter ll is invalid"}')];
+    await assert.rejects(requestYandex(new URL(baseUrl), { maxRetries: 2 }), (error: unknown) => {
+      assert.ok(error instanceof BadRequestError);
+      assert.equal(error.status, 400);
+      assert.equal(error.message, "Yandex API rejected the request (400): Parameter ll is invalid");
+      return true;
+    });
+    assert.equal(requests.length, 1);
+  });
+
+  it("times out an upstream that stalls after sending headers", async () => {
+    handlers = [(_req, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.write('{"partial":');
+    }];
+    await assert.rejects(requestYandex(new URL(baseUrl), { timeoutMs: 200, maxRetries: 0 }), {
+      name: "UpstreamUnavailableError",
+      message: "Yandex API did not respond within 200 ms"
+    });
+  });
+
+  it("keeps the API key out of network error messages", async () => {
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, "127.0.0.1", resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise(resolve => closed.close(resolve));
+
+    await assert.rejects(requestYandex(new URL(`http://127.0.0.1:${port}/?apikey=secret`), { maxRetries: 0 }), (error: unknown) => {
+      assert.ok(error instanceof UpstreamUnavailableError);
+      assert.ok(!error.message.includes("secret"));
+      return true;
+    });
+  });
+
+  it("charges every request of a tool call after the first to the upstream budget", async () => {
+    await runWithCallContext({ sessionId: "charged" }, async () => {
+      for (let index = 0; index < 3; index++) {
+        await requestYandex(new URL(baseUrl));
+      }
+      await assert.rejects(requestYandex(new URL(baseUrl)), RateLimitedError);
+    });
+    assert.equal(requests.length, 3);
+  });
+});